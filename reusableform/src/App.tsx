@@ -1,6 +1,7 @@
-import { useState } from 'react'
+import { useRef, useState } from 'react'
 import './App.css'
-import { DynamicForm } from './Components/Dynamic'
+import { DynamicForm, FormLocaleProvider, FormThemeProvider, type DynamicFormHandle, type FormMessages, type ThemeName } from './Components/Dynamic'
+import { SubmissionError } from './Components/SubmissionError'
 import './Components/Dynamic.css'
 import { 
   contactFormSchema,
@@ -12,8 +13,39 @@ import {
   insuranceQuoteSchema
 } from './schema/formSchema'
 
+// What the "Update Agent" flow would fetch before showing the form
+const existingAgent = {
+  agent_name: 'Jane Wanjiku',
+  agent_type: 'Individual',
+  id_number: '12345678',
+  phone_number: '254712345678',
+  email: 'jane@example.com',
+  location: 'Nairobi'
+};
+
+// Plain-string schema text and button labels double as message keys
+const appMessages: FormMessages = {
+  sw: {
+    'Send Message': 'Tuma Ujumbe',
+    'Create Account': 'Fungua Akaunti',
+    'Update Agent': 'Sasisha Wakala',
+    'Add Product': 'Ongeza Bidhaa',
+    'Save Address': 'Hifadhi Anwani',
+    'Submit Application': 'Tuma Maombi',
+    'Get Quote': 'Pata Bei'
+  }
+};
+
+const locales = { en: 'English', sw: 'Kiswahili' };
+
+const themes: Record<ThemeName, string> = { light: 'Light', dark: 'Dark', auto: 'System' };
+
 function App() {
   const [activeForm, setActiveForm] = useState('contact');
+  const [locale, setLocale] = useState('en');
+  const [theme, setTheme] = useState<ThemeName>('light');
+  const [simulateFailure, setSimulateFailure] = useState(false);
+  const formRef = useRef<DynamicFormHandle>(null);
 
   const forms = {
     contact: { schema: contactFormSchema, button: 'Send Message' },
@@ -25,9 +57,20 @@ function App() {
     insurance: { schema: insuranceQuoteSchema, button: 'Get Quote' }
   };
 
-  const handleSubmit = async (data: any) => {
+  const handleSubmit = async (data: Record<string, unknown>) => {
+    // Stands in for the API round trip
+    await new Promise((resolve) => setTimeout(resolve, 800));
+    // Shows the failure banner and its retry button
+    if (simulateFailure) throw new Error('Network unavailable');
+
+    // Simulates the API rejecting a duplicate phone number
+    if (activeForm === 'agent' && data.phone_number === '254700000000') {
+      throw new SubmissionError({
+        fieldErrors: { phone_number: 'This phone number is already in use' },
+        formError: 'The agent could not be saved.'
+      });
+    }
     console.log('Form submitted:', data);
-    alert(`${activeForm} form submitted! Check console.`);
   };
 
   return (
@@ -44,12 +87,68 @@ function App() {
         ))}
       </div>
 
-      <DynamicForm 
-        schema={forms[activeForm as keyof typeof forms].schema}
-        onSubmit={handleSubmit}
-        submitButtonText={forms[activeForm as keyof typeof forms].button}
-        showMeta={true}
-      />
+      <div className="form-selector">
+        {Object.entries(locales).map(([key, name]) => (
+          <button
+            key={key}
+            onClick={() => setLocale(key)}
+            className={locale === key ? 'active' : ''}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <div className="form-selector">
+        {(Object.entries(themes) as [ThemeName, string][]).map(([key, name]) => (
+          <button
+            key={key}
+            onClick={() => setTheme(key)}
+            className={theme === key ? 'active' : ''}
+          >
+            {name}
+          </button>
+        ))}
+      </div>
+
+      <div className="form-toolbar">
+        <label className="form-toolbar-toggle">
+          <input type="checkbox" checked={simulateFailure} onChange={(e) => setSimulateFailure(e.target.checked)} />
+          Simulate network failure
+        </label>
+        {activeForm === 'agent' && (
+          <>
+            <button type="button" onClick={() => formRef.current?.reset(existingAgent)}>
+              Load existing agent
+            </button>
+            <button type="button" onClick={() => formRef.current?.submit()}>
+              Save from toolbar
+            </button>
+          </>
+        )}
+      </div>
+
+      <FormThemeProvider theme={theme}>
+        <FormLocaleProvider locale={locale} messages={appMessages}>
+          <DynamicForm 
+            ref={formRef}
+            key={activeForm}
+            schema={forms[activeForm as keyof typeof forms].schema}
+            onSubmit={handleSubmit}
+            submitButtonText={forms[activeForm as keyof typeof forms].button}
+            showMeta={true}
+            successView={(_, reset) => (
+              <>
+                <h3>Thanks, we got it!</h3>
+                <p>Your {activeForm} form was submitted. Check the console for the data.</p>
+                <button type="button" className="dynamic-form-submit" onClick={reset}>
+                  Start over
+                </button>
+              </>
+            )}
+          />
+        </FormLocaleProvider>
+      </FormThemeProvider>
     </div>
   )
 }
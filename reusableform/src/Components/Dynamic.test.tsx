@@ -0,0 +1,619 @@
+import { createRef } from 'react';
+import { act, cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DynamicForm, FormThemeProvider, type DraftStorage, type DynamicFormHandle, type FormSchema } from './Dynamic';
+import { SubmissionError } from './SubmissionError';
+
+afterEach(cleanup);
+
+describe('hiddenFields: clear', () => {
+  const showMore = { field: 'more', op: 'equals', value: true } as const;
+  const schema: FormSchema = {
+    id: 'hidden-clear',
+    meta: { title: 'Hidden fields' },
+    hiddenFields: 'clear',
+    fields: {
+      more: { id: 'more', label: 'Show more', renderer: 'checkbox' },
+      tags: { id: 'tags', label: 'Tags', renderer: 'multiselect', props: { data: ['Red', 'Blue'] }, visibleWhen: showMore },
+      contacts: {
+        id: 'contacts',
+        label: 'Contacts',
+        renderer: 'array',
+        visibleWhen: showMore,
+        item: { fields: { name: { id: 'name', label: 'Name', renderer: 'text' } } },
+      },
+    },
+    layout: [
+      { kind: 'field', fieldId: 'more' },
+      { kind: 'field', fieldId: 'tags' },
+      { kind: 'field', fieldId: 'contacts' },
+    ],
+  };
+
+  it('renders while array-valued fields are hidden, and resets them once hidden again', () => {
+    const ref = createRef<DynamicFormHandle>();
+    render(<DynamicForm schema={schema} onSubmit={() => {}} ref={ref} />);
+    const toggle = screen.getByRole('checkbox', { name: 'Show more' });
+    expect(screen.queryByText('Tags')).toBeNull();
+
+    fireEvent.click(toggle);
+    expect(screen.getByText('Tags')).toBeTruthy();
+    act(() => ref.current!.setValues({ tags: ['Red'], contacts: [{ name: 'Ann' }] }));
+    expect(ref.current!.getValues()).toMatchObject({ tags: ['Red'], contacts: [{ name: 'Ann' }] });
+
+    fireEvent.click(toggle);
+    expect(screen.queryByText('Tags')).toBeNull();
+    expect(ref.current!.getValues()).toMatchObject({ more: false, tags: [], contacts: [] });
+  });
+});
+
+describe('optionsFrom.load', () => {
+  const createSchema = (load: (parent: unknown) => Promise<string[]>, area?: string): FormSchema => ({
+    id: 'cascade',
+    meta: { title: 'Cascade' },
+    fields: {
+      county: { id: 'county', label: 'County', renderer: 'select', defaultValue: 'Nairobi', props: { data: ['Nairobi'] } },
+      area: { id: 'area', label: 'Area', renderer: 'select', defaultValue: area, optionsFrom: { dependsOn: 'county', load } },
+    },
+    layout: [
+      { kind: 'field', fieldId: 'county' },
+      { kind: 'field', fieldId: 'area' },
+    ],
+  });
+
+  it('offers a retry after a failed load instead of staying disabled', async () => {
+    const load = vi
+      .fn<(parent: unknown) => Promise<string[]>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(['Westlands', 'Kilimani']);
+    const schema = createSchema(load);
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Retry' }));
+    expect(await screen.findByRole('option', { name: 'Kilimani' })).toBeTruthy();
+    expect(screen.getByRole<HTMLSelectElement>('combobox', { name: 'Area' }).disabled).toBe(false);
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+
+  it('keeps the selected value when a load fails', async () => {
+    const load = vi
+      .fn<(parent: unknown) => Promise<string[]>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(['Westlands', 'Kilimani']);
+    const ref = createRef<DynamicFormHandle>();
+    render(<DynamicForm schema={createSchema(load, 'Kilimani')} onSubmit={() => {}} ref={ref} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Retry' }));
+    expect(ref.current!.getValues().area).toBe('Kilimani');
+    expect(await screen.findByRole('option', { name: 'Kilimani' })).toBeTruthy();
+    expect(ref.current!.getValues().area).toBe('Kilimani');
+  });
+
+  it('clears the value once a successful load no longer offers it', async () => {
+    const load = vi.fn<(parent: unknown) => Promise<string[]>>().mockResolvedValue(['Westlands']);
+    const ref = createRef<DynamicFormHandle>();
+    render(<DynamicForm schema={createSchema(load, 'Kilimani')} onSubmit={() => {}} ref={ref} />);
+
+    expect(await screen.findByRole('option', { name: 'Westlands' })).toBeTruthy();
+    await waitFor(() => expect(ref.current!.getValues().area).toBe(''));
+  });
+
+  it('keeps loaded options per form', async () => {
+    const load = vi.fn<(parent: unknown) => Promise<string[]>>().mockResolvedValue(['Westlands']);
+    const schema = createSchema(load);
+    const { unmount } = render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    expect(await screen.findByRole('option', { name: 'Westlands' })).toBeTruthy();
+    unmount();
+
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    expect(await screen.findByRole('option', { name: 'Westlands' })).toBeTruthy();
+    expect(load).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('error focus', () => {
+  it('focuses the first invalid field after a failed submit', async () => {
+    const schema: FormSchema = {
+      id: 'focus',
+      meta: { title: 'Focus' },
+      fields: {
+        name: { id: 'name', label: 'Name', renderer: 'text' },
+        email: { id: 'email', label: 'Email', renderer: 'text', rules: { required: 'Email is required' } },
+      },
+      layout: [
+        { kind: 'field', fieldId: 'name' },
+        { kind: 'field', fieldId: 'email' },
+      ],
+    };
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(document.activeElement).toBe(screen.getByRole('textbox', { name: 'Email' })));
+  });
+});
+
+describe('number fields', () => {
+  const schema: FormSchema = {
+    id: 'numbers',
+    meta: { title: 'Numbers' },
+    fields: { guests: { id: 'guests', label: 'Guests', renderer: 'number', props: { min: 1, max: 10 } } },
+    layout: [{ kind: 'field', fieldId: 'guests' }],
+  };
+
+  it('submits an empty optional field without checking its bounds', async () => {
+    const onSubmit = vi.fn();
+    render(<DynamicForm schema={schema} onSubmit={onSubmit} />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0][0].guests).toBeUndefined();
+    expect(screen.queryByText('Must be at least 1')).toBeNull();
+  });
+
+  it('blocks submit when the value is out of range', async () => {
+    const onSubmit = vi.fn();
+    render(<DynamicForm schema={schema} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Guests' }), { target: { value: '12' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    expect(await screen.findByText('Must be at most 10')).toBeTruthy();
+    expect(onSubmit).not.toHaveBeenCalled();
+  });
+});
+
+describe('computed fields', () => {
+  const createSchema = (fields: FormSchema['fields']): FormSchema => ({
+    id: 'computed',
+    meta: { title: 'Computed' },
+    fields: { price: { id: 'price', label: 'Price', renderer: 'number' }, ...fields },
+    layout: Object.keys({ price: true, ...fields }).map((fieldId) => ({ kind: 'field' as const, fieldId })),
+  });
+
+  it('recomputes as the values it reads change', () => {
+    const schema = createSchema({
+      total: { id: 'total', label: 'Total', renderer: 'text', computed: { expression: 'price * 2' } },
+    });
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Price' }), { target: { value: '21' } });
+    expect(screen.getByRole('status', { name: 'Total' }).textContent).toBe('42');
+  });
+
+  it('reports a bad expression and a cycle on their fields instead of throwing', () => {
+    const schema = createSchema({
+      broken: { id: 'broken', label: 'Broken', renderer: 'text', computed: { expression: 'price *' } },
+      a: { id: 'a', label: 'A', renderer: 'text', computed: { expression: 'b + 1' } },
+      b: { id: 'b', label: 'B', renderer: 'text', computed: { expression: 'a + 1' } },
+      total: { id: 'total', label: 'Total', renderer: 'text', computed: { expression: 'price * 2' } },
+    });
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+
+    expect(screen.getByText(/Unexpected end of expression/)).toBeTruthy();
+    expect(screen.getAllByText('Computed fields depend on each other in a cycle: a → b → a')).toHaveLength(2);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Price' }), { target: { value: '5' } });
+    expect(screen.getByRole('status', { name: 'Total' }).textContent).toBe('10');
+  });
+});
+
+describe('grid breakpoints', () => {
+  /** A viewport `width` px wide, as far as min-width media queries go */
+  const setViewport = (width: number) =>
+    vi.stubGlobal('matchMedia', (query: string) => ({
+      matches: width >= Number(/min-width: (\d+)px/.exec(query)?.[1]),
+      addEventListener: () => {},
+      removeEventListener: () => {},
+    }));
+
+  const createSchema = (breakpoints?: FormSchema['breakpoints']): FormSchema => ({
+    id: 'grid',
+    meta: { title: 'Grid' },
+    breakpoints,
+    fields: {
+      first: { id: 'first', label: 'First', renderer: 'text' },
+      last: { id: 'last', label: 'Last', renderer: 'text' },
+    },
+    layout: [{ kind: 'grid', cols: 2, children: [{ kind: 'field', fieldId: 'first' }, { kind: 'field', fieldId: 'last' }] }],
+  });
+  const gridColumns = (container: HTMLElement) => container.querySelector<HTMLElement>('.layout-grid')!.style.gridTemplateColumns;
+
+  afterEach(() => vi.unstubAllGlobals());
+
+  it('stacks a plain column count below the schema md breakpoint', () => {
+    setViewport(900);
+    const { container, unmount } = render(<DynamicForm schema={createSchema()} onSubmit={() => {}} />);
+    expect(gridColumns(container)).toBe('repeat(2, minmax(0, 1fr))');
+    unmount();
+
+    render(<DynamicForm schema={createSchema({ md: 1000 })} onSubmit={() => {}} />);
+    expect(gridColumns(document.body)).toBe('repeat(1, minmax(0, 1fr))');
+  });
+});
+
+describe('schema effects', () => {
+  const textField = (id: string, label: string) => ({ id, label, renderer: 'text' });
+
+  it('sets and clears fields when the trigger changes', () => {
+    const schema: FormSchema = {
+      id: 'effects',
+      meta: { title: 'Effects' },
+      fields: {
+        country: { id: 'country', label: 'Country', renderer: 'select', props: { data: ['KE', 'TZ'] } },
+        currency: textField('currency', 'Currency'),
+        region: { ...textField('region', 'Region'), defaultValue: 'Any' },
+      },
+      layout: [
+        { kind: 'field', fieldId: 'country' },
+        { kind: 'field', fieldId: 'currency' },
+        { kind: 'field', fieldId: 'region' },
+      ],
+      effects: [
+        { on: 'country', if: { field: 'country', op: 'equals', value: 'KE' }, set: { currency: 'KES' } },
+        { on: 'country', clear: ['region'] },
+      ],
+    };
+    const ref = createRef<DynamicFormHandle>();
+    render(<DynamicForm schema={schema} onSubmit={() => {}} ref={ref} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Region' }), { target: { value: 'Nairobi' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Country' }), { target: { value: 'KE' } });
+    expect(ref.current!.getValues()).toMatchObject({ country: 'KE', currency: 'KES', region: 'Any' });
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Currency' }), { target: { value: 'USD' } });
+    fireEvent.change(screen.getByRole('combobox', { name: 'Country' }), { target: { value: 'TZ' } });
+    expect(ref.current!.getValues()).toMatchObject({ country: 'TZ', currency: 'USD' });
+  });
+
+  it('runs each effect once per change, even when effects trigger each other', () => {
+    const schema: FormSchema = {
+      id: 'effects-loop',
+      meta: { title: 'Effects' },
+      fields: { a: textField('a', 'A'), b: textField('b', 'B') },
+      layout: [
+        { kind: 'field', fieldId: 'a' },
+        { kind: 'field', fieldId: 'b' },
+      ],
+      effects: [
+        { on: 'a', set: { b: 'from a' } },
+        { on: 'b', set: { a: 'from b' } },
+      ],
+    };
+    const ref = createRef<DynamicFormHandle>();
+    render(<DynamicForm schema={schema} onSubmit={() => {}} ref={ref} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'A' }), { target: { value: 'typed' } });
+    expect(ref.current!.getValues()).toMatchObject({ a: 'from b', b: 'from a' });
+  });
+
+  it('disables a field while its condition holds and leaves it out of the submission', async () => {
+    const schema: FormSchema = {
+      id: 'effects-disable',
+      meta: { title: 'Effects' },
+      fields: {
+        company: { id: 'company', label: 'Company', renderer: 'checkbox' },
+        vat: { ...textField('vat', 'VAT number'), rules: { required: 'VAT number is required' } },
+      },
+      layout: [
+        { kind: 'field', fieldId: 'company' },
+        { kind: 'field', fieldId: 'vat' },
+      ],
+      effects: [{ if: { field: 'company', op: 'equals', value: true }, enable: ['vat'] }],
+    };
+    const onSubmit = vi.fn();
+    render(<DynamicForm schema={schema} onSubmit={onSubmit} />);
+    const vat = screen.getByRole<HTMLInputElement>('textbox', { name: 'VAT number' });
+    expect(vat.disabled).toBe(true);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0][0]).not.toHaveProperty('vat');
+
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Company' }));
+    expect(vat.disabled).toBe(false);
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    expect(await screen.findAllByText('VAT number is required')).not.toHaveLength(0);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+  });
+});
+
+describe('drafts', () => {
+  const draftKey = 'dynamic-form:draft-form:v1:draft';
+  const schema: FormSchema = {
+    id: 'draft-form',
+    meta: { title: 'Drafts' },
+    saveDraft: { debounceMs: 20 },
+    fields: {
+      name: { id: 'name', label: 'Name', renderer: 'text' },
+      password: { id: 'password', label: 'Password', renderer: 'text', inputType: 'password' },
+    },
+    layout: [
+      { kind: 'field', fieldId: 'name' },
+      { kind: 'field', fieldId: 'password' },
+    ],
+  };
+
+  const createStorage = (initial: Record<string, string> = {}) => {
+    const items = new Map(Object.entries(initial));
+    const storage: DraftStorage = {
+      getItem: (key) => items.get(key) ?? null,
+      setItem: vi.fn((key: string, value: string) => void items.set(key, value)),
+      removeItem: vi.fn((key: string) => void items.delete(key)),
+    };
+    return { storage, items };
+  };
+
+  const storedValues = (items: Map<string, string>) => JSON.parse(items.get(draftKey) ?? 'null')?.values;
+
+  // Writes wait until the storage has been checked for an earlier draft
+  const renderDraftForm = async (storage: DraftStorage, onSubmit = vi.fn()) => {
+    render(<DynamicForm schema={schema} onSubmit={onSubmit} draftStorage={storage} />);
+    await act(async () => {});
+  };
+
+  it('saves edits after the debounce and leaves sensitive fields out', async () => {
+    const { storage, items } = createStorage();
+    await renderDraftForm(storage);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Name' }), { target: { value: 'Ann' } });
+    fireEvent.change(screen.getByLabelText('Password'), { target: { value: 'secret' } });
+    expect(storage.setItem).not.toHaveBeenCalled();
+
+    await waitFor(() => expect(storedValues(items)).toEqual({ name: 'Ann' }));
+    expect(storage.setItem).toHaveBeenCalledTimes(1);
+  });
+
+  it('restores a stored draft only when asked, without overwriting it beforehand', async () => {
+    const saved = JSON.stringify({ savedAt: '2024-05-01T10:00:00.000Z', values: { name: 'Saved' } });
+    const { storage, items } = createStorage({ [draftKey]: saved });
+    render(<DynamicForm schema={schema} onSubmit={() => {}} draftStorage={storage} />);
+    const name = screen.getByRole<HTMLInputElement>('textbox', { name: 'Name' });
+
+    const restore = await screen.findByRole('button', { name: 'Restore' });
+    fireEvent.change(name, { target: { value: 'Typed' } });
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(items.get(draftKey)).toBe(saved);
+
+    fireEvent.click(restore);
+    expect(name.value).toBe('Saved');
+    expect(screen.queryByRole('button', { name: 'Restore' })).toBeNull();
+  });
+
+  it('removes the draft when it is discarded', async () => {
+    const saved = JSON.stringify({ savedAt: '2024-05-01T10:00:00.000Z', values: { name: 'Saved' } });
+    const { storage, items } = createStorage({ [draftKey]: saved });
+    render(<DynamicForm schema={schema} onSubmit={() => {}} draftStorage={storage} />);
+
+    fireEvent.click(await screen.findByRole('button', { name: 'Discard' }));
+    expect(items.has(draftKey)).toBe(false);
+    expect(screen.getByRole<HTMLInputElement>('textbox', { name: 'Name' }).value).toBe('');
+  });
+
+  it('clears the draft after a successful submission', async () => {
+    const { storage, items } = createStorage();
+    const onSubmit = vi.fn();
+    await renderDraftForm(storage, onSubmit);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Name' }), { target: { value: 'Ann' } });
+    await waitFor(() => expect(items.has(draftKey)).toBe(true));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    await waitFor(() => expect(items.has(draftKey)).toBe(false));
+  });
+});
+
+describe('async validation', () => {
+  const createSchema = (validate: (value: unknown) => Promise<boolean | string>, debounceMs: number): FormSchema => ({
+    id: 'async-validation',
+    meta: { title: 'Sign up' },
+    fields: {
+      username: {
+        id: 'username',
+        label: 'Username',
+        renderer: 'text',
+        rules: { asyncValidate: { validate, debounceMs, message: 'Username is taken' } },
+      },
+    },
+    layout: [{ kind: 'field', fieldId: 'username' }],
+  });
+
+  it('checks only the value that settles after the debounce', async () => {
+    const validate = vi.fn(async (value: unknown) => value !== 'taken');
+    render(<DynamicForm schema={createSchema(validate, 30)} onSubmit={() => {}} />);
+    const input = screen.getByRole('textbox', { name: 'Username' });
+
+    fireEvent.change(input, { target: { value: 't' } });
+    fireEvent.change(input, { target: { value: 'tak' } });
+    fireEvent.change(input, { target: { value: 'taken' } });
+    expect(validate).not.toHaveBeenCalled();
+
+    expect(await screen.findAllByText('Username is taken')).not.toHaveLength(0);
+    expect(validate).toHaveBeenCalledTimes(1);
+    expect(validate.mock.calls[0][0]).toBe('taken');
+  });
+
+  it('makes submit wait for a pending check instead of the debounce', async () => {
+    let answer: (valid: boolean) => void = () => {};
+    const validate = vi.fn(() => new Promise<boolean>((resolve) => (answer = resolve)));
+    const onSubmit = vi.fn();
+    render(<DynamicForm schema={createSchema(validate, 60_000)} onSubmit={onSubmit} />);
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Username' }), { target: { value: 'taken' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(validate).toHaveBeenCalledTimes(1));
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    await act(async () => answer(false));
+    expect(await screen.findAllByText('Username is taken')).not.toHaveLength(0);
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Username' }), { target: { value: 'free' } });
+    await waitFor(() => expect(screen.queryAllByText('Username is taken')).toHaveLength(0));
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(validate).toHaveBeenCalledTimes(2));
+    await act(async () => answer(true));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0][0]).toEqual({ username: 'free' });
+  });
+});
+
+describe('wizard', () => {
+  const schema: FormSchema = {
+    id: 'wizard',
+    meta: { title: 'Sign up' },
+    layoutMode: 'wizard',
+    fields: {
+      email: { id: 'email', label: 'Email', renderer: 'text', rules: { required: 'Email is required' } },
+      business: { id: 'business', label: 'Business account', renderer: 'checkbox' },
+      company: {
+        id: 'company',
+        label: 'Company',
+        renderer: 'text',
+        rules: { required: 'Company is required' },
+        visibleWhen: { field: 'business', op: 'equals', value: true },
+      },
+      notes: { id: 'notes', label: 'Notes', renderer: 'textarea' },
+    },
+    layout: [
+      { kind: 'step', title: 'Account', children: [{ kind: 'field', fieldId: 'email' }, { kind: 'field', fieldId: 'business' }] },
+      { kind: 'step', title: 'Company', children: [{ kind: 'field', fieldId: 'company' }] },
+      { kind: 'step', title: 'Finish', children: [{ kind: 'field', fieldId: 'notes' }] },
+    ],
+  };
+
+  const next = () => fireEvent.click(screen.getByRole('button', { name: 'Next' }));
+
+  it('stays on a step until its fields are valid', async () => {
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+
+    next();
+    expect(await screen.findAllByText('Email is required')).not.toHaveLength(0);
+    expect(screen.getByText('Step 1 of 2')).toBeTruthy();
+    expect(screen.queryByRole('textbox', { name: 'Notes' })).toBeNull();
+
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ann@example.com' } });
+    next();
+    expect(await screen.findByRole('textbox', { name: 'Notes' })).toBeTruthy();
+  });
+
+  it('skips steps whose fields are all hidden', async () => {
+    const onSubmit = vi.fn();
+    render(<DynamicForm schema={schema} onSubmit={onSubmit} />);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ann@example.com' } });
+
+    next();
+    expect(await screen.findByText('Step 2 of 2')).toBeTruthy();
+    expect(screen.queryByRole('textbox', { name: 'Company' })).toBeNull();
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(1));
+    expect(onSubmit.mock.calls[0][0]).not.toHaveProperty('company');
+  });
+
+  it('includes a step once its fields become visible and gates it too', async () => {
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Email' }), { target: { value: 'ann@example.com' } });
+    fireEvent.click(screen.getByRole('checkbox', { name: 'Business account' }));
+    expect(screen.getByText('Step 1 of 3')).toBeTruthy();
+
+    next();
+    expect(await screen.findByRole('textbox', { name: 'Company' })).toBeTruthy();
+    next();
+    expect(await screen.findAllByText('Company is required')).not.toHaveLength(0);
+    expect(screen.getByText('Step 2 of 3')).toBeTruthy();
+
+    fireEvent.click(screen.getByRole('button', { name: 'Back' }));
+    expect(screen.getByRole<HTMLInputElement>('textbox', { name: 'Email' }).value).toBe('ann@example.com');
+  });
+});
+
+describe('submission', () => {
+  const schema: FormSchema = {
+    id: 'submission',
+    meta: { title: 'Agent' },
+    fields: {
+      name: { id: 'name', label: 'Name', renderer: 'text' },
+      secret: { id: 'secret', label: 'Secret', renderer: 'text', visibleWhen: { field: 'name', op: 'equals', value: 'admin' } },
+    },
+    layout: [
+      { kind: 'field', fieldId: 'name' },
+      { kind: 'field', fieldId: 'secret' },
+    ],
+  };
+
+  it('ignores further submits while one is in flight', async () => {
+    let finish: () => void = () => {};
+    const onSubmit = vi.fn(() => new Promise<void>((resolve) => (finish = resolve)));
+    const { container } = render(<DynamicForm schema={schema} onSubmit={onSubmit} />);
+    const form = container.querySelector('form')!;
+
+    fireEvent.submit(form);
+    fireEvent.submit(form);
+    const button = await screen.findByRole<HTMLButtonElement>('button', { name: 'Submitting...' });
+    expect(button.disabled).toBe(true);
+    fireEvent.submit(form);
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+
+    await act(async () => finish());
+    expect(screen.getByRole<HTMLButtonElement>('button', { name: 'Submit' }).disabled).toBe(false);
+    fireEvent.submit(form);
+    await waitFor(() => expect(onSubmit).toHaveBeenCalledTimes(2));
+  });
+
+  it('shows a thrown SubmissionError on its fields and the rest in the banner', async () => {
+    const onSubmit = () => {
+      throw new SubmissionError({
+        fieldErrors: { name: ['Name is taken', 'Try another'], secret: 'Not allowed', region: 'Unknown region' },
+        formError: 'Please check the form',
+      });
+    };
+    render(<DynamicForm schema={schema} onSubmit={onSubmit} />);
+    fireEvent.change(screen.getByRole('textbox', { name: 'Name' }), { target: { value: 'Ann' } });
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    const banner = await screen.findByRole('alert');
+    expect(banner.textContent).toBe('Please check the form\nSecret: Not allowed\nregion: Unknown region');
+    expect(screen.getByRole('textbox', { name: 'Name' }).getAttribute('aria-invalid')).toBe('true');
+    expect(screen.getAllByText('Name is taken Try another')).not.toHaveLength(0);
+    // Server errors aren't worth retrying unchanged
+    expect(screen.queryByRole('button', { name: 'Retry' })).toBeNull();
+  });
+
+  it('treats a returned SubmitResult with errors like a thrown SubmissionError', async () => {
+    const onSubmitSuccess = vi.fn();
+    const onSubmitError = vi.fn();
+    render(
+      <DynamicForm
+        schema={schema}
+        onSubmit={() => ({ fieldErrors: { name: 'Name is taken' } })}
+        onSubmitSuccess={onSubmitSuccess}
+        onSubmitError={onSubmitError}
+      />
+    );
+    fireEvent.click(screen.getByRole('button', { name: 'Submit' }));
+
+    expect(await screen.findAllByText('Name is taken')).not.toHaveLength(0);
+    expect(onSubmitError.mock.calls[0][0]).toBeInstanceOf(SubmissionError);
+    expect(onSubmitSuccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('theme', () => {
+  const schema: FormSchema = {
+    id: 'themed',
+    meta: { title: 'Themed' },
+    fields: { name: { id: 'name', label: 'Name', renderer: 'text' } },
+    layout: [{ kind: 'field', fieldId: 'name' }],
+  };
+
+  it('layers the form theme over the provider theme on the form root', () => {
+    const { container } = render(
+      <FormThemeProvider theme={{ base: 'dark', tokens: { colorPrimary: '#6d28d9', titleSizeSm: '20px' } }}>
+        <DynamicForm schema={schema} theme={{ tokens: { colorPrimary: '#0f766e' } }} onSubmit={() => {}} />
+      </FormThemeProvider>
+    );
+    const root = container.querySelector<HTMLElement>('.dynamic-form')!;
+
+    expect(root.dataset.theme).toBe('dark');
+    expect(root.style.getPropertyValue('--df-color-primary')).toBe('#0f766e');
+    expect(root.style.getPropertyValue('--df-title-size-sm')).toBe('20px');
+  });
+});
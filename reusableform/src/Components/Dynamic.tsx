@@ -3,277 +3,137 @@
  * DYNAMIC FORM - SINGLE COMPONENT
  * ================================================================
  * 
- * Complete form system in one file with Context provider
+ * The default skin for the headless form state in headless.ts
  * - React Hook Form + Zod validation
  * - All field types inline
  * - All layouts inline
+ * - Accessible: ARIA-wired fields, an error summary after a failed submit,
+ *   focus on the first invalid field and a live region for announcements
  * 
  * Usage:
  * import { DynamicForm } from './DynamicForm';
  * import { myFormSchema } from './Schema';
  * 
  * <DynamicForm schema={myFormSchema} onSubmit={handleSubmit} />
+ *
+ * Custom renderers:
+ * <DynamicForm schema={schema} renderers={{ phone: { component: PhoneInput, schema: () => z.string() } }} />
+ *
+ * Localized (see i18n.ts):
+ * <DynamicForm schema={schema} locale="sw" messages={messages} onSubmit={handleSubmit} />
+ *
+ * Themed (see theme.ts):
+ * <DynamicForm schema={schema} theme={{ base: 'dark', tokens: { colorPrimary: '#a78bfa' } }} onSubmit={handleSubmit} />
+ *
+ * Own markup (see headless.ts), with the built-in fields or useDynamicField:
+ * const form = useDynamicForm(schema, { onSubmit: handleSubmit });
+ * <DynamicFormProvider form={form}><DynamicField fieldId="email" /></DynamicFormProvider>
  */
 
-import React, { createContext, useContext, useMemo } from 'react';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
-import { z } from 'zod';
+import React, { createContext, useContext, useEffect, useId, useImperativeHandle, useMemo, useRef, useState } from 'react';
+import type { FieldValues } from 'react-hook-form';
+import { formatDate, formatNumber, isRtlLocale, parseNumber, toEditableNumber, type LocalizedText, type Translate } from './i18n';
+import {
+  collectFieldIds,
+  FormContext,
+  FormLocaleContext,
+  formatFileSize,
+  getComputedIssue,
+  getFieldAria,
+  getFieldError,
+  getGridLayout,
+  isEmptyValue,
+  toDateInputValue,
+  useDynamicArray,
+  useDynamicField,
+  useDynamicForm,
+  useFieldOptions,
+  useFormContext,
+  useOptionSearch,
+  type CustomRenderer,
+  type DynamicFormController,
+  type DynamicFormHandle,
+  type DynamicFormOptions,
+  type ErrorSummaryItem,
+  type FormLocale,
+  type LayoutNode,
+  type TypedFormSchema,
+  type WizardStep,
+} from './headless';
+import { resolveTheme, type ThemeProp } from './theme';
 
-type FieldRenderer = 'text' | 'textarea' | 'select' | 'multiselect' | 'number' | 'date' | 'checkbox' | 'radio' | 'switch' | 'file';
-type VisibilityOperator = 'equals' | 'in' | 'notEquals';
-type LayoutKind = 'section' | 'grid' | 'stack' | 'field';
-
-interface VisibilityCondition {
-  field: string;
-  op: VisibilityOperator;
-  value: any;
-}
-
-interface ValidationRules {
-  required?: string | boolean;
-  minLength?: { value: number; message: string };
-  maxLength?: { value: number; message: string };
-  min?: { value: number; message: string };
-  max?: { value: number; message: string };
-  pattern?: { value: RegExp; message: string };
-  validate?: (value: any, formValues: Record<string, any>) => boolean | string;
-}
-
-interface FieldDefinition {
-  id: string;
-  label: string;
-  renderer: FieldRenderer;
-  inputType?: string;
-  placeholder?: string;
-  defaultValue?: any;
-  props?: any;
-  rules?: ValidationRules;
-  visibleWhen?: VisibilityCondition | VisibilityCondition[];
-}
-
-type LayoutNode = {
-  kind: LayoutKind;
-  fieldId?: string;
-  colSpan?: number;
-  title?: string;
-  subtitle?: string;
-  withDivider?: boolean;
-  collapsible?: boolean;
-  cols?: number;
-  spacing?: 'sm' | 'md' | 'lg';
-  children?: LayoutNode[];
-};
-
-interface FormSchema {
-  id: string;
-  meta: {
-    title: string;
-    subtitle?: string;
-    description?: string;
-  };
-  fields: Record<string, FieldDefinition>;
-  layout: LayoutNode[];
-}
-
-interface FormContextValue {
-  schema: FormSchema;
-  formValues: Record<string, any>;
-  errors: Record<string, any>;
-  touchedFields: Set<string>;
-  isFieldVisible: (fieldId: string) => boolean;
-  register: any;
-  setValue: any;
-}
-
-const FormContext = createContext<FormContextValue | null>(null);
-
-const useFormContext = () => {
-  const context = useContext(FormContext);
-  if (!context) throw new Error('useFormContext must be used within DynamicFormProvider');
-  return context;
-};
-
-const buildZodSchema = (schema: FormSchema): z.ZodObject<any> => {
-  const schemaShape: Record<string, z.ZodTypeAny> = {};
-
-  Object.entries(schema.fields).forEach(([fieldId, fieldDef]) => {
-    let fieldSchema: z.ZodTypeAny;
-
-    switch (fieldDef.renderer) {
-      case 'number':
-        fieldSchema = z.coerce.number();
-        break;
-      case 'checkbox':
-      case 'switch':
-        fieldSchema = z.boolean();
-        break;
-      case 'multiselect':
-        fieldSchema = z.array(z.string());
-        break;
-      default:
-        fieldSchema = z.string();
-    }
-
-    const rules = fieldDef.rules;
-    if (!rules) {
-      schemaShape[fieldId] = fieldSchema.optional();
-      return;
-    }
-
-    if (fieldSchema instanceof z.ZodString) {
-      let stringSchema = fieldSchema as z.ZodString;
-      
-      if (rules.required) {
-        const msg = typeof rules.required === 'string' ? rules.required : 'Required';
-        stringSchema = stringSchema.min(1, msg);
-      }
-      if (rules.minLength) {
-        stringSchema = stringSchema.min(rules.minLength.value, rules.minLength.message);
-      }
-      if (rules.maxLength) {
-        stringSchema = stringSchema.max(rules.maxLength.value, rules.maxLength.message);
-      }
-      if (rules.pattern) {
-        stringSchema = stringSchema.regex(rules.pattern.value, rules.pattern.message);
-      }
-      if (fieldDef.inputType === 'email') {
-        stringSchema = stringSchema.email('Invalid email');
-      }
-      if (fieldDef.inputType === 'url') {
-        stringSchema = stringSchema.url('Invalid URL');
-      }
-      
-      fieldSchema = !rules.required ? stringSchema.optional() : stringSchema;
-    }
-
-    if (fieldSchema instanceof z.ZodNumber) {
-      let numberSchema = fieldSchema as z.ZodNumber;
-      
-      if (rules.min) {
-        numberSchema = numberSchema.min(rules.min.value, rules.min.message);
-      }
-      if (rules.max) {
-        numberSchema = numberSchema.max(rules.max.value, rules.max.message);
-      }
-      
-      fieldSchema = !rules.required ? numberSchema.optional() : numberSchema;
-    }
-
-    if (fieldSchema instanceof z.ZodBoolean && rules.required) {
-      const msg = typeof rules.required === 'string' ? rules.required : 'Required';
-      fieldSchema = fieldSchema.refine((val) => val === true, { message: msg });
-    }
-
-    if (fieldSchema instanceof z.ZodArray) {
-      let arraySchema = fieldSchema as z.ZodArray<any>;
-      
-      if (rules.required) {
-        const msg = typeof rules.required === 'string' ? rules.required : 'Required';
-        arraySchema = arraySchema.min(1, msg);
-      }
-      
-      fieldSchema = !rules.required ? arraySchema.optional() : arraySchema;
-    }
-
-    schemaShape[fieldId] = fieldSchema;
-  });
-
-  return z.object(schemaShape);
-};
-
-const getDefaultValues = (schema: FormSchema): Record<string, any> => {
-  const defaults: Record<string, any> = {};
-  Object.entries(schema.fields).forEach(([fieldId, fieldDef]) => {
-    if (fieldDef.defaultValue !== undefined) {
-      defaults[fieldId] = fieldDef.defaultValue;
-    } else {
-      switch (fieldDef.renderer) {
-        case 'checkbox':
-        case 'switch':
-          defaults[fieldId] = false;
-          break;
-        case 'multiselect':
-          defaults[fieldId] = [];
-          break;
-        default:
-          defaults[fieldId] = '';
-      }
-    }
-  });
-  return defaults;
-};
-
-const evaluateVisibility = (conditions: any, formValues: Record<string, any>): boolean => {
-  if (Array.isArray(conditions)) {
-    return conditions.every((cond) => evaluateSingleCondition(cond, formValues));
-  }
-  return evaluateSingleCondition(conditions, formValues);
-};
-
-const evaluateSingleCondition = (condition: any, formValues: Record<string, any>): boolean => {
-  const { field, op, value } = condition;
-  const fieldValue = formValues[field];
-
-  switch (op) {
-    case 'equals':
-      return fieldValue === value;
-    case 'notEquals':
-      return fieldValue !== value;
-    case 'in':
-      return Array.isArray(value) && value.includes(fieldValue);
-    default:
-      return true;
-  }
+const PendingIcon = () => {
+  const { t } = useFormContext();
+  return (
+    <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="icon-pending" aria-label={t('field.checking')}>
+      <circle className="icon-track" cx="10" cy="10" r="8" strokeWidth="2" />
+      <path className="icon-stroke" d="M18 10a8 8 0 0 0-8-8" strokeWidth="2" strokeLinecap="round" />
+    </svg>
+  );
 };
 
 const ErrorIcon = () => (
   <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="icon-error">
-    <circle cx="10" cy="10" r="9" fill="#FEE2E2" />
-    <circle cx="10" cy="10" r="8" stroke="#DC2626" strokeWidth="1.5" />
-    <path d="M7 7L13 13M13 7L7 13" stroke="#DC2626" strokeWidth="2" strokeLinecap="round" />
+    <circle className="icon-surface" cx="10" cy="10" r="9" />
+    <circle className="icon-stroke" cx="10" cy="10" r="8" strokeWidth="1.5" />
+    <path className="icon-stroke" d="M7 7L13 13M13 7L7 13" strokeWidth="2" strokeLinecap="round" />
   </svg>
 );
 
 const SuccessIcon = () => (
   <svg width="20" height="20" viewBox="0 0 20 20" fill="none" className="icon-success">
-    <circle cx="10" cy="10" r="9" fill="#D1FAE5" />
-    <circle cx="10" cy="10" r="8" stroke="#059669" strokeWidth="1.5" />
-    <path d="M6 10L8.5 12.5L14 7" stroke="#059669" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
+    <circle className="icon-surface" cx="10" cy="10" r="9" />
+    <circle className="icon-stroke" cx="10" cy="10" r="8" strokeWidth="1.5" />
+    <path className="icon-stroke" d="M6 10L8.5 12.5L14 7" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round" />
   </svg>
 );
 
+/** Calls `loadMore` once a scrollable option list nears its end */
+const handleOptionsScroll = (event: React.UIEvent<HTMLElement>, loadMore: () => void) => {
+  const list = event.currentTarget;
+  if (list.scrollTop + list.clientHeight >= list.scrollHeight - 24) loadMore();
+};
+
+/**
+ * The visual asterisk is hidden from screen readers, which hear `aria-required`
+ * instead. Groups that can't carry `aria-required` set `spoken` to say it in text.
+ */
+const RequiredMark = ({ spoken }: { spoken?: boolean }) => {
+  const { t } = useFormContext();
+  return (
+    <>
+      <span className="field-required" aria-hidden="true">*</span>
+      {spoken && <span className="dynamic-form-visually-hidden"> ({t('field.required')})</span>}
+    </>
+  );
+};
+
 const TextField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, touchedFields, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
-  const touched = touchedFields.has(fieldId);
-  const hasError = !!error;
-  const isValid = touched && !error;
+  const { field, inputId, label, placeholder, required, error, invalid, pending, isValid, getInputProps } = useDynamicField(fieldId);
 
   return (
     <div className="field-wrapper">
-      <label htmlFor={fieldId} className="field-label">
-        {field.label}
-        {field.rules?.required && <span className="field-required">*</span>}
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
       </label>
-      <div className={`field-input-container ${hasError ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+      <div className={`field-input-container ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
         <input
-          id={fieldId}
           type={field.inputType || 'text'}
-          placeholder={field.placeholder}
+          placeholder={placeholder}
           className="field-input"
-          {...register(fieldId)}
+          {...getInputProps()}
         />
         <div className="field-icon">
-          {hasError && <ErrorIcon />}
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
           {isValid && <SuccessIcon />}
         </div>
       </div>
-      {hasError && (
-        <div className="field-error-message">
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
         </div>
       )}
     </div>
@@ -281,36 +141,31 @@ const TextField = ({ fieldId }: { fieldId: string }) => {
 };
 
 const TextareaField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, touchedFields, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
-  const touched = touchedFields.has(fieldId);
-  const hasError = !!error;
-  const isValid = touched && !error;
+  const { field, inputId, label, placeholder, required, error, invalid, pending, isValid, getInputProps } = useDynamicField(fieldId);
 
   return (
     <div className="field-wrapper">
-      <label htmlFor={fieldId} className="field-label">
-        {field.label}
-        {field.rules?.required && <span className="field-required">*</span>}
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
       </label>
-      <div className={`field-input-container ${hasError ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+      <div className={`field-input-container ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
         <textarea
-          id={fieldId}
-          placeholder={field.placeholder}
+          placeholder={placeholder}
           rows={field.props?.minRows || 3}
           className="field-textarea"
-          {...register(fieldId)}
+          {...getInputProps()}
         />
         <div className="field-icon">
-          {hasError && <ErrorIcon />}
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
           {isValid && <SuccessIcon />}
         </div>
       </div>
-      {hasError && (
-        <div className="field-error-message">
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
         </div>
       )}
     </div>
@@ -318,38 +173,179 @@ const TextareaField = ({ fieldId }: { fieldId: string }) => {
 };
 
 const SelectField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, touchedFields, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
-  const touched = touchedFields.has(fieldId);
-  const hasError = !!error;
-  const isValid = touched && !error;
-  const options = field.props?.data || [];
+  const { field, inputId, label, required, error, invalid, pending, isValid, disabled, getInputProps, t } = useDynamicField(fieldId);
+  const { options, status, emptyText, retry } = useFieldOptions(fieldId);
 
   return (
     <div className="field-wrapper">
-      <label htmlFor={fieldId} className="field-label">
-        {field.label}
-        {field.rules?.required && <span className="field-required">*</span>}
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
       </label>
-      <div className={`field-input-container ${hasError ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
-        <select id={fieldId} className="field-select" {...register(fieldId)}>
-          <option value="">{field.placeholder || 'Select...'}</option>
-          {options.map((opt: any, idx: number) => (
-            <option key={idx} value={opt.value || opt}>
-              {opt.label || opt}
+      <div className={`field-input-container ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+        <select
+          className="field-select"
+          aria-busy={status === 'loading'}
+          {...getInputProps()}
+          disabled={disabled || !!emptyText}
+        >
+          <option value="">{emptyText || t(field.placeholder || 'options.select')}</option>
+          {options.map((opt) => (
+            <option key={opt.value} value={opt.value}>
+              {opt.label}
             </option>
           ))}
         </select>
         <div className="field-icon">
-          {hasError && <ErrorIcon />}
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
+          {isValid && <SuccessIcon />}
+        </div>
+      </div>
+      {status === 'error' && (
+        <button type="button" className="field-options-retry" onClick={retry}>
+          {t('options.retry')}
+        </button>
+      )}
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
+          <ErrorIcon />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+/** Typeahead select used for `searchable` and `optionsLoader` fields */
+const ComboboxField = ({ fieldId }: { fieldId: string }) => {
+  const { setValue } = useFormContext();
+  const { field, inputId, label, required, value: currentValue, error, invalid, touched, pending, isValid, disabled, aria, onChange, t } =
+    useDynamicField(fieldId);
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState('');
+  const [activeIndex, setActiveIndex] = useState(0);
+  const labels = useRef(new Map<string, string>());
+  const listId = `${inputId}-listbox`;
+
+  const { options, status, emptyText, hasMore, loadMore, retry } = useOptionSearch(fieldId, query, open);
+  const value: string = currentValue ?? '';
+  const selectedLabel = options.find((opt) => opt.value === value)?.label ?? labels.current.get(value) ?? value;
+  // Local sources that can't offer options yet (parent empty) disable the input
+  const unavailable = !field.optionsLoader && status !== 'ready';
+
+  const choose = (opt: { label: string; value: string }) => {
+    labels.current.set(opt.value, opt.label);
+    onChange(opt.value);
+    setOpen(false);
+  };
+
+  const openList = () => {
+    setQuery('');
+    setActiveIndex(0);
+    setOpen(true);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+      event.preventDefault();
+      if (!open) return openList();
+      const step = event.key === 'ArrowDown' ? 1 : -1;
+      const next = Math.min(Math.max(activeIndex + step, 0), Math.max(options.length - 1, 0));
+      if (next === options.length - 1) loadMore();
+      setActiveIndex(next);
+    } else if (event.key === 'Enter' && open) {
+      event.preventDefault();
+      if (options[activeIndex]) choose(options[activeIndex]);
+    } else if (event.key === 'Escape' && open) {
+      event.preventDefault();
+      setOpen(false);
+    }
+  };
+
+  return (
+    <div className="field-wrapper">
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
+      </label>
+      <div className={`field-input-container field-combobox ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+        <input
+          id={inputId}
+          type="text"
+          role="combobox"
+          autoComplete="off"
+          aria-autocomplete="list"
+          aria-expanded={open}
+          aria-controls={listId}
+          aria-activedescendant={open && options[activeIndex] ? `${listId}-${activeIndex}` : undefined}
+          className="field-input field-combobox-input"
+          placeholder={(unavailable && emptyText) || t(field.placeholder || 'options.search')}
+          disabled={disabled || unavailable}
+          {...aria}
+          value={open ? query : selectedLabel}
+          onFocus={openList}
+          onClick={() => !open && openList()}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setActiveIndex(0);
+            setOpen(true);
+          }}
+          onKeyDown={handleKeyDown}
+          onBlur={() => {
+            setOpen(false);
+            if (!touched) setValue(fieldId, value, { shouldValidate: true, shouldTouch: true });
+          }}
+        />
+        <div className="field-icon">
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
           {isValid && <SuccessIcon />}
         </div>
+        {open && (
+          <ul
+            id={listId}
+            role="listbox"
+            className="field-combobox-list"
+            aria-busy={status === 'loading'}
+            onScroll={(e) => handleOptionsScroll(e, loadMore)}
+          >
+            {options.map((opt, index) => (
+              <li
+                key={opt.value}
+                id={`${listId}-${index}`}
+                role="option"
+                aria-selected={opt.value === value}
+                className={`field-combobox-option ${index === activeIndex ? 'is-active' : ''} ${opt.value === value ? 'is-selected' : ''}`}
+                // mousedown keeps focus on the input so blur doesn't close the list first
+                onMouseDown={(e) => {
+                  e.preventDefault();
+                  choose(opt);
+                }}
+                onMouseEnter={() => setActiveIndex(index)}
+              >
+                {opt.label}
+              </li>
+            ))}
+            {emptyText && <li className="field-combobox-status">{emptyText}</li>}
+            {options.length > 0 && status === 'loading' && (
+              <li className="field-combobox-status">{t('options.loadingMore')}</li>
+            )}
+            {status === 'error' && (
+              <li className="field-combobox-status">
+                <button type="button" className="field-options-retry" onMouseDown={(e) => e.preventDefault()} onClick={retry}>
+                  {t('options.retry')}
+                </button>
+              </li>
+            )}
+            {hasMore && status === 'ready' && <li className="field-combobox-status">{t('options.scrollForMore')}</li>}
+          </ul>
+        )}
       </div>
-      {hasError && (
-        <div className="field-error-message">
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
         </div>
       )}
     </div>
@@ -357,23 +353,21 @@ const SelectField = ({ fieldId }: { fieldId: string }) => {
 };
 
 const CheckboxField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
+  const { inputId, label, required, error, invalid, getInputProps } = useDynamicField(fieldId);
 
   return (
     <div className="field-wrapper field-checkbox-wrapper">
       <div className="field-checkbox-container">
-        <input id={fieldId} type="checkbox" className="field-checkbox" {...register(fieldId)} />
-        <label htmlFor={fieldId} className="field-checkbox-label">
-          {field.label}
-          {field.rules?.required && <span className="field-required">*</span>}
+        <input type="checkbox" className="field-checkbox" {...getInputProps()} />
+        <label htmlFor={inputId} className="field-checkbox-label">
+          {label}
+          {required && <RequiredMark />}
         </label>
       </div>
-      {error && (
-        <div className="field-error-message">
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
         </div>
       )}
     </div>
@@ -381,69 +375,115 @@ const CheckboxField = ({ fieldId }: { fieldId: string }) => {
 };
 
 const RadioField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
+  const { register } = useFormContext();
+  const { field, inputId, label, required, error, invalid, disabled, aria, t } = useDynamicField(fieldId);
   const options = field.props?.options || [];
 
   return (
-    <div className="field-wrapper">
-      <div className="field-label">
-        {field.label}
-        {field.rules?.required && <span className="field-required">*</span>}
-      </div>
+    <fieldset id={inputId} className="field-wrapper field-fieldset" role="radiogroup" {...aria}>
+      <legend className="field-label">
+        {label}
+        {required && <RequiredMark />}
+      </legend>
       <div className="field-radio-group">
-        {options.map((option: any, index: number) => (
+        {options.map((option, index) => (
           <div key={index} className="field-radio-item">
-            <input id={`${fieldId}-${index}`} type="radio" value={option.value} className="field-radio" {...register(fieldId)} />
-            <label htmlFor={`${fieldId}-${index}`} className="field-radio-label">{option.label}</label>
+            <input
+              id={`${inputId}-${index}`}
+              type="radio"
+              value={option.value}
+              className="field-radio"
+              disabled={disabled}
+              {...register(fieldId)}
+            />
+            <label htmlFor={`${inputId}-${index}`} className="field-radio-label">{t(option.label)}</label>
           </div>
         ))}
       </div>
-      {error && (
-        <div className="field-error-message">
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
         </div>
       )}
-    </div>
+    </fieldset>
   );
 };
 
+/** Decimal places of `step`, so stepping by 0.1 doesn't produce 0.30000000000000004 */
+const countDecimals = (step: number): number => (String(step).split('.')[1] || '').length;
+
+/**
+ * A text input rather than `type="number"`, so the value can be shown with the
+ * locale's digit grouping (`1,250,000`) while not being edited. The form value
+ * is the plain `1250000.5` string a native number input would report.
+ */
 const NumberField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, touchedFields, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
-  const touched = touchedFields.has(fieldId);
-  const hasError = !!error;
-  const isValid = touched && !error;
+  const { setValue } = useFormContext();
+  const { field, inputId, label, placeholder, required, value, error, invalid, touched, pending, isValid, disabled, aria, t } =
+    useDynamicField(fieldId);
+  const [editText, setEditText] = useState<string | null>(null);
+  const { min, max, step = 1, precision } = field.props || {};
+  const displayText = isEmptyValue(value)
+    ? ''
+    : formatNumber(value, t.locale, {
+        minimumFractionDigits: precision,
+        maximumFractionDigits: precision ?? 20,
+      });
+
+  const update = (next: string) => setValue(fieldId, next, { shouldValidate: true, shouldDirty: true });
+
+  // Arrow keys step like a native number input, within min/max
+  const stepBy = (direction: 1 | -1) => {
+    let next = (Number(value) || 0) + direction * step;
+    if (min !== undefined) next = Math.max(next, min);
+    if (max !== undefined) next = Math.min(next, max);
+    const text = next.toFixed(countDecimals(step));
+    setEditText(toEditableNumber(text, t.locale));
+    update(text);
+  };
 
   return (
     <div className="field-wrapper">
-      <label htmlFor={fieldId} className="field-label">
-        {field.label}
-        {field.rules?.required && <span className="field-required">*</span>}
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
       </label>
-      <div className={`field-input-container ${hasError ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+      <div className={`field-input-container ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
         <input
-          id={fieldId}
-          type="number"
-          placeholder={field.placeholder}
-          min={field.props?.min}
-          max={field.props?.max}
-          step={field.props?.step || 1}
+          id={inputId}
+          type="text"
+          inputMode="decimal"
+          placeholder={placeholder}
           className="field-input field-number"
-          {...register(fieldId)}
+          disabled={disabled}
+          {...aria}
+          value={editText ?? displayText}
+          onFocus={() => setEditText(toEditableNumber(value, t.locale))}
+          onChange={(e) => {
+            setEditText(e.target.value);
+            update(parseNumber(e.target.value, t.locale));
+          }}
+          onKeyDown={(e) => {
+            if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return;
+            e.preventDefault();
+            stepBy(e.key === 'ArrowUp' ? 1 : -1);
+          }}
+          onBlur={() => {
+            setEditText(null);
+            if (!touched) setValue(fieldId, value, { shouldValidate: true, shouldTouch: true });
+          }}
         />
         <div className="field-icon">
-          {hasError && <ErrorIcon />}
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
           {isValid && <SuccessIcon />}
         </div>
       </div>
-      {hasError && (
-        <div className="field-error-message">
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
         </div>
       )}
     </div>
@@ -451,44 +491,409 @@ const NumberField = ({ fieldId }: { fieldId: string }) => {
 };
 
 const SwitchField = ({ fieldId }: { fieldId: string }) => {
-  const { schema, errors, register } = useFormContext();
-  const field = schema.fields[fieldId];
-  const error = errors[fieldId];
+  const { inputId, label, required, error, invalid, getInputProps } = useDynamicField(fieldId);
 
   return (
     <div className="field-wrapper field-switch-wrapper">
       <div className="field-switch-container">
-        <label htmlFor={fieldId} className="field-switch-label">
-          {field.label}
-          {field.rules?.required && <span className="field-required">*</span>}
+        <label htmlFor={inputId} className="field-switch-label">
+          {label}
+          {required && <RequiredMark />}
         </label>
         <div className="field-switch">
-          <input id={fieldId} type="checkbox" className="field-switch-input" {...register(fieldId)} />
+          <input type="checkbox" role="switch" className="field-switch-input" {...getInputProps()} />
           <span className="field-switch-slider"></span>
         </div>
       </div>
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
+          <ErrorIcon />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const DateField = ({ fieldId }: { fieldId: string }) => {
+  const { field, inputId, label, required, value, error, invalid, pending, isValid, getInputProps, t } = useDynamicField(fieldId);
+
+  return (
+    <div className="field-wrapper">
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
+      </label>
+      <div className={`field-input-container ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+        <input
+          type="date"
+          placeholder={t(field.placeholder || field.props?.placeholder)}
+          min={toDateInputValue(field.props?.minDate)}
+          max={toDateInputValue(field.props?.maxDate)}
+          className="field-input field-date"
+          {...getInputProps(isEmptyValue(value) ? undefined : `${inputId}-hint`)}
+        />
+        <div className="field-icon">
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
+          {isValid && <SuccessIcon />}
+        </div>
+      </div>
+      {/* The native picker follows the browser's language, so the date is spelled out in the form's */}
+      {!isEmptyValue(value) && (
+        <div id={`${inputId}-hint`} className="field-hint">
+          {formatDate(value, t.locale)}
+        </div>
+      )}
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
+          <ErrorIcon />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const MultiSelectField = ({ fieldId }: { fieldId: string }) => {
+  const { field, inputId, label, required, value, error, invalid, isValid, disabled, onChange, t } = useDynamicField(fieldId);
+  const [query, setQuery] = useState('');
+
+  const labels = useRef(new Map<string, string>());
+  const searchable = !!(field.props?.searchable || field.optionsLoader);
+  const { options, status, emptyText, hasMore, loadMore, retry } = useOptionSearch(fieldId, query, true);
+  const selected: string[] = value || [];
+  const maxValues: number | undefined = field.props?.maxValues;
+  const atMax = maxValues !== undefined && selected.length >= maxValues;
+
+  const toggleOption = (value: string) => {
+    const option = options.find((opt) => opt.value === value);
+    if (option) labels.current.set(value, option.label);
+    if (selected.includes(value)) {
+      onChange(selected.filter((item) => item !== value));
+    } else if (!atMax) {
+      onChange([...selected, value]);
+    }
+  };
+
+  return (
+    <div className="field-wrapper">
+      <div id={`${inputId}-label`} className="field-label">
+        {label}
+        {required && <RequiredMark spoken />}
+      </div>
+      <div className={`field-multiselect ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+        {selected.length > 0 && (
+          <div className="field-multiselect-tags">
+            {selected.map((value) => {
+              const label = options.find((opt) => opt.value === value)?.label ?? labels.current.get(value) ?? value;
+              return (
+                <span key={value} className="field-multiselect-tag">
+                  {label}
+                  <button
+                    type="button"
+                    className="field-multiselect-tag-remove"
+                    aria-label={t('multiselect.remove', { option: label })}
+                    disabled={disabled}
+                    onClick={() => toggleOption(value)}
+                  >
+                    ×
+                  </button>
+                </span>
+              );
+            })}
+          </div>
+        )}
+        {searchable && (
+          <input
+            id={inputId}
+            type="search"
+            value={query}
+            placeholder={t(field.placeholder || 'options.search')}
+            className="field-input field-multiselect-search"
+            aria-describedby={invalid ? `${inputId}-error` : undefined}
+            disabled={disabled}
+            onChange={(e) => setQuery(e.target.value)}
+          />
+        )}
+        {/* Without a search box the group carries the field's id, for the error summary links */}
+        <div
+          id={searchable ? undefined : inputId}
+          className="field-multiselect-options"
+          role="group"
+          aria-labelledby={`${inputId}-label`}
+          aria-describedby={invalid ? `${inputId}-error` : undefined}
+          aria-busy={status === 'loading'}
+          onScroll={(e) => handleOptionsScroll(e, loadMore)}
+        >
+          {options.map((opt) => {
+            const checked = selected.includes(opt.value);
+            return (
+              <label key={opt.value} className={`field-multiselect-option ${checked ? 'is-selected' : ''}`}>
+                <input
+                  type="checkbox"
+                  className="field-checkbox"
+                  checked={checked}
+                  disabled={disabled || (!checked && atMax)}
+                  onChange={() => toggleOption(opt.value)}
+                />
+                {opt.label}
+              </label>
+            );
+          })}
+          {emptyText && <div className="field-multiselect-empty">{emptyText}</div>}
+          {options.length > 0 && status === 'loading' && (
+            <div className="field-multiselect-empty">{t('options.loadingMore')}</div>
+          )}
+          {status === 'error' && (
+            <button type="button" className="field-options-retry" onClick={retry}>
+              {t('options.retry')}
+            </button>
+          )}
+          {hasMore && status === 'ready' && (
+            <button type="button" className="field-options-more" onClick={loadMore}>
+              {t('options.loadMore')}
+            </button>
+          )}
+        </div>
+        {maxValues !== undefined && (
+          <div className="field-multiselect-count">
+            {t('multiselect.count', { count: selected.length, max: maxValues })}
+          </div>
+        )}
+      </div>
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
+          <ErrorIcon />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const FileField = ({ fieldId }: { fieldId: string }) => {
+  const { field, inputId, label, required, value, error, invalid, pending, isValid, disabled, onChange, t } = useDynamicField(fieldId);
+  const file: File | null = value instanceof File ? value : null;
+  const hasHint = !!(field.props?.accept || field.props?.maxSize);
+
+  return (
+    <div className="field-wrapper">
+      <label htmlFor={inputId} className="field-label">
+        {label}
+        {required && <RequiredMark />}
+      </label>
+      <div className={`field-input-container field-file ${invalid ? 'has-error' : ''} ${isValid ? 'is-valid' : ''}`}>
+        {/* Remounting on clear resets the native input's selection */}
+        <input
+          key={file ? 'selected' : 'empty'}
+          id={inputId}
+          type="file"
+          accept={field.props?.accept}
+          className="field-file-input"
+          disabled={disabled}
+          {...getFieldAria(inputId, field, invalid, hasHint ? `${inputId}-hint` : undefined)}
+          onChange={(e) => onChange(e.target.files?.[0] ?? null)}
+        />
+        <div className="field-icon">
+          {pending && <PendingIcon />}
+          {invalid && <ErrorIcon />}
+          {isValid && <SuccessIcon />}
+        </div>
+      </div>
+      {file && (
+        <div className="field-file-info">
+          <span>{file.name} ({formatFileSize(file.size)})</span>
+          <button type="button" className="field-file-remove" disabled={disabled} onClick={() => onChange(null)}>
+            {t('file.remove')}
+          </button>
+        </div>
+      )}
+      {hasHint && (
+        <div id={`${inputId}-hint`} className="field-hint">
+          {field.props?.accept && <span>{t('file.accepted', { accept: field.props.accept })}</span>}
+          {field.props?.maxSize && <span>{t('file.maxSize', { size: formatFileSize(field.props.maxSize) })}</span>}
+        </div>
+      )}
+      {invalid && (
+        <div id={`${inputId}-error`} className="field-error-message">
+          <ErrorIcon />
+          <span>{error}</span>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const ArrayField = ({ fieldId }: { fieldId: string }) => {
+  const { field, inputId, label, itemTitle, itemSchema, rows, append, remove, move, canAdd, canRemove, error, disabled, t } =
+    useDynamicArray(fieldId);
+
+  // A disabled fieldset disables every control inside it, rows included
+  return (
+    <fieldset
+      id={inputId}
+      className="field-wrapper field-array"
+      disabled={disabled}
+      aria-describedby={error ? `${inputId}-error` : undefined}
+    >
+      <legend className="field-label">
+        {label}
+        {field.rules?.required && <RequiredMark spoken />}
+      </legend>
+      {rows.length === 0 && <p className="field-array-empty">{t(field.props?.emptyText || 'array.empty')}</p>}
+      {rows.map((row) => (
+        <div key={row.key} className="field-array-row">
+          <div className="field-array-row-header">
+            <span className="field-array-row-title">{itemTitle} {row.index + 1}</span>
+            <div className="field-array-row-actions">
+              <button
+                type="button"
+                className="field-array-action"
+                aria-label={t('array.moveUp', { item: itemTitle, number: row.index + 1 })}
+                disabled={row.index === 0}
+                onClick={() => move(row.index, row.index - 1)}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className="field-array-action"
+                aria-label={t('array.moveDown', { item: itemTitle, number: row.index + 1 })}
+                disabled={row.index === rows.length - 1}
+                onClick={() => move(row.index, row.index + 1)}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className="field-array-action field-array-remove"
+                aria-label={t('array.removeRow', { item: itemTitle, number: row.index + 1 })}
+                disabled={!canRemove}
+                onClick={() => remove(row.index)}
+              >
+                {t('array.remove')}
+              </button>
+            </div>
+          </div>
+          <DynamicFormProvider form={row.form}>
+            <div className="field-array-row-body">
+              {itemSchema.layout.map((node, nodeIndex) => (
+                <LayoutRenderer key={nodeIndex} layout={node} />
+              ))}
+            </div>
+          </DynamicFormProvider>
+        </div>
+      ))}
+      <button
+        type="button"
+        className="field-array-add"
+        disabled={!canAdd}
+        onClick={append}
+      >
+        {field.props?.addLabel ? t(field.props.addLabel) : t('array.add', { item: itemTitle })}
+      </button>
       {error && (
-        <div className="field-error-message">
+        <div id={`${inputId}-error`} className="field-error-message">
           <ErrorIcon />
-          <span>{error.message}</span>
+          <span>{error}</span>
+        </div>
+      )}
+    </fieldset>
+  );
+};
+
+const CustomField = ({ fieldId, renderer }: { fieldId: string; renderer: CustomRenderer }) => {
+  const { schema, formValues, errors, touchedFields, pendingFields, isFieldVisible, isFieldDisabled, register, setValue, getInputId, t } =
+    useFormContext();
+  const Component = renderer.component;
+  const field = schema.fields[fieldId];
+  const inputId = getInputId(fieldId);
+
+  return (
+    <Component
+      fieldId={fieldId}
+      field={field}
+      value={formValues[fieldId]}
+      error={errors[fieldId]}
+      touched={touchedFields.has(fieldId)}
+      pending={pendingFields.has(fieldId)}
+      disabled={isFieldDisabled(fieldId)}
+      formValues={formValues}
+      isFieldVisible={isFieldVisible}
+      register={register}
+      setValue={setValue}
+      onChange={(value) => setValue(fieldId, value, { shouldValidate: true, shouldDirty: true, shouldTouch: true })}
+      t={t}
+      locale={t.locale}
+      inputId={inputId}
+      aria={getFieldAria(inputId, field, !!errors[fieldId])}
+    />
+  );
+};
+
+const formatComputedValue = (value: unknown, t: Translate): string => {
+  if (typeof value === 'number') return formatNumber(value, t.locale, { maximumFractionDigits: 2 });
+  if (typeof value === 'boolean') return t(value ? 'computed.yes' : 'computed.no');
+  if (Array.isArray(value)) return value.join(', ');
+  return String(value);
+};
+
+/** Read-only output for a computed field; DynamicForm keeps the value itself up to date */
+const ComputedField = ({ fieldId }: { fieldId: string }) => {
+  const { schema, formValues, errors, getInputId, t } = useFormContext();
+  const field = schema.fields[fieldId];
+  const inputId = getInputId(fieldId);
+  const value = formValues[fieldId];
+  // A bad expression or a dependency cycle shows here rather than breaking the form
+  const error = getComputedIssue(schema.fields, fieldId) ?? getFieldError(errors, fieldId);
+  const format = field.computed?.format;
+
+  return (
+    <div className="field-wrapper">
+      <label htmlFor={inputId} className="field-label">
+        {t(field.label)}
+      </label>
+      <div className={`field-input-container ${error ? 'has-error' : ''}`}>
+        <output
+          id={inputId}
+          className="field-input field-computed"
+          aria-live="polite"
+          aria-describedby={error ? `${inputId}-error` : undefined}
+        >
+          {isEmptyValue(value) ? t(field.placeholder) || '—' : format ? format(value, t.locale) : formatComputedValue(value, t)}
+        </output>
+      </div>
+      {error && (
+        <div id={`${inputId}-error`} className="field-error-message">
+          <ErrorIcon />
+          <span>{error}</span>
         </div>
       )}
     </div>
   );
 };
-const FieldRenderer = ({ fieldId }: { fieldId: string }) => {
-  const { schema, isFieldVisible } = useFormContext();
+
+/** A schema field in its built-in (or custom) skin; custom markup places it inside DynamicFormProvider */
+export const DynamicField = ({ fieldId }: { fieldId: string }) => {
+  const { schema, isFieldVisible, renderers } = useFormContext();
   const field = schema.fields[fieldId];
 
   if (!field || !isFieldVisible(fieldId)) return null;
 
+  const customRenderer = renderers[field.renderer];
+  if (customRenderer) return <CustomField fieldId={fieldId} renderer={customRenderer} />;
+  if (field.computed) return <ComputedField fieldId={fieldId} />;
+
   switch (field.renderer) {
     case 'text':
       return <TextField fieldId={fieldId} />;
     case 'textarea':
       return <TextareaField fieldId={fieldId} />;
     case 'select':
-      return <SelectField fieldId={fieldId} />;
+      return field.optionsLoader || field.props?.searchable
+        ? <ComboboxField fieldId={fieldId} />
+        : <SelectField fieldId={fieldId} />;
     case 'checkbox':
       return <CheckboxField fieldId={fieldId} />;
     case 'radio':
@@ -497,15 +902,96 @@ const FieldRenderer = ({ fieldId }: { fieldId: string }) => {
       return <NumberField fieldId={fieldId} />;
     case 'switch':  // ← Make sure this exists
       return <SwitchField fieldId={fieldId} />;
+    case 'date':
+      return <DateField fieldId={fieldId} />;
+    case 'multiselect':
+      return <MultiSelectField fieldId={fieldId} />;
+    case 'file':
+      return <FileField fieldId={fieldId} />;
+    case 'array':
+      return <ArrayField fieldId={fieldId} />;
     default:
       return null;
   }
 };
 
+const collapsedStorageKey = (schemaId: string) => `dynamic-form:${schemaId}:collapsed`;
+
+const readCollapsedState = (schemaId: string): Record<string, boolean> => {
+  try {
+    return JSON.parse(localStorage.getItem(collapsedStorageKey(schemaId)) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const writeCollapsedState = (schemaId: string, sectionKey: string, collapsed: boolean) => {
+  try {
+    const state = { ...readCollapsedState(schemaId), [sectionKey]: collapsed };
+    localStorage.setItem(collapsedStorageKey(schemaId), JSON.stringify(state));
+  } catch {
+    // Storage can be unavailable (private mode, quota); the toggle still works.
+  }
+};
+
+const CollapsibleSection = ({ layout }: { layout: LayoutNode }) => {
+  const { schema, errors, submitCount, t } = useFormContext();
+  const contentId = useId();
+  // Keyed by the schema's text rather than a translation, so the state survives a language switch
+  const sectionKey = layout.id || (typeof layout.title === 'object' ? JSON.stringify(layout.title) : layout.title || '');
+  const [collapsed, setCollapsed] = useState<boolean>(() => {
+    const stored = schema.rememberCollapsed ? readCollapsedState(schema.id)[sectionKey] : undefined;
+    return stored ?? !!layout.defaultCollapsed;
+  });
+  const hasError = collectFieldIds(layout.children || []).some((fieldId) => !!errors[fieldId]);
+
+  // Reveal fields that failed validation. This isn't persisted, so the user's
+  // own choice is restored on the next visit.
+  useEffect(() => {
+    if (hasError) setCollapsed(false);
+  }, [hasError, submitCount]);
+
+  const toggle = () => {
+    setCollapsed(!collapsed);
+    if (schema.rememberCollapsed) writeCollapsedState(schema.id, sectionKey, !collapsed);
+  };
+
+  return (
+    <div className={`layout-section layout-section-collapsible ${collapsed ? 'is-collapsed' : ''}`}>
+      <div className="layout-section-header">
+        <h3 className="layout-section-title">
+          <button
+            type="button"
+            className="layout-section-toggle"
+            aria-expanded={!collapsed}
+            aria-controls={contentId}
+            onClick={toggle}
+          >
+            <span className="layout-section-chevron" aria-hidden="true" />
+            {t(layout.title)}
+          </button>
+        </h3>
+        {layout.subtitle && <p className="layout-section-subtitle">{t(layout.subtitle)}</p>}
+      </div>
+      {layout.withDivider !== false && !collapsed && <div className="layout-section-divider" />}
+      {/* Stays mounted while collapsed so field values and registrations survive */}
+      <div id={contentId} className="layout-section-content" hidden={collapsed}>
+        {layout.children?.map((child, index) => (
+          <LayoutRenderer key={index} layout={child} />
+        ))}
+      </div>
+    </div>
+  );
+};
+
 const LayoutRenderer = ({ layout }: { layout: LayoutNode }) => {
+  const { isLayoutVisible, breakpoint, t } = useFormContext();
+
+  if (!isLayoutVisible(layout)) return null;
+
   switch (layout.kind) {
     case 'field':
-      return <FieldRenderer fieldId={layout.fieldId!} />;
+      return <DynamicField fieldId={layout.fieldId!} />;
 
     case 'stack':
       return (
@@ -516,25 +1002,33 @@ const LayoutRenderer = ({ layout }: { layout: LayoutNode }) => {
         </div>
       );
 
-    case 'grid':
+    case 'grid': {
+      const { cols, spans } = getGridLayout(layout, breakpoint);
       return (
-        <div className={`layout-grid layout-spacing-${layout.spacing || 'md'}`} style={{ gridTemplateColumns: `repeat(${layout.cols || 2}, 1fr)` }}>
-          {layout.children?.map((child, index) => (
-            <div key={index} style={{ gridColumn: `span ${(child as any).colSpan || 1}` }}>
+        <div
+          className={`layout-grid layout-spacing-${layout.spacing || 'md'}`}
+          style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}
+        >
+          {/* Hidden children are dropped entirely so they don't leave empty cells behind */}
+          {layout.children?.map((child, index) => isLayoutVisible(child) && (
+            <div key={index} style={{ gridColumn: `span ${spans[index]}` }}>
               <LayoutRenderer layout={child} />
             </div>
           ))}
         </div>
       );
+    }
 
     case 'section':
+    case 'step':
+      if (layout.collapsible && layout.title) return <CollapsibleSection layout={layout} />;
       return (
         <div className="layout-section">
           {layout.title && (
             <>
               <div className="layout-section-header">
-                <h3 className="layout-section-title">{layout.title}</h3>
-                {layout.subtitle && <p className="layout-section-subtitle">{layout.subtitle}</p>}
+                <h3 className="layout-section-title">{t(layout.title)}</h3>
+                {layout.subtitle && <p className="layout-section-subtitle">{t(layout.subtitle)}</p>}
               </div>
               {layout.withDivider !== false && <div className="layout-section-divider" />}
             </>
@@ -552,72 +1046,277 @@ const LayoutRenderer = ({ layout }: { layout: LayoutNode }) => {
   }
 };
 
-interface DynamicFormProps {
-  schema: FormSchema;
-  onSubmit: (data: any) => void | Promise<void>;
-  submitButtonText?: string;
+const WizardProgress = ({ steps, current, onSelect }: {
+  steps: WizardStep[];
+  current: number;
+  onSelect: (position: number) => void;
+}) => {
+  const { t } = useFormContext();
+  return (
+    <nav className="wizard-progress" aria-label={t('wizard.progress')}>
+      <p className="wizard-progress-summary">{t('wizard.summary', { current: current + 1, total: steps.length })}</p>
+      <ol className="wizard-progress-steps">
+        {steps.map((step, position) => (
+          <li
+            key={step.index}
+            className={`wizard-progress-step ${position < current ? 'is-complete' : ''} ${position === current ? 'is-current' : ''}`}
+            aria-current={position === current ? 'step' : undefined}
+          >
+            {/* Only earlier steps can be revisited; moving forward goes through Next */}
+            <button
+              type="button"
+              className="wizard-progress-button"
+              disabled={position >= current}
+              onClick={() => onSelect(position)}
+            >
+              <span className="wizard-progress-index">{formatNumber(position + 1, t.locale)}</span>
+              <span className="wizard-progress-title">
+                {step.title ? t(step.title) : t('wizard.step', { number: position + 1 })}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ol>
+    </nav>
+  );
+};
+
+/** Shown at the top of the form after a failed submit; each entry links to its field */
+const ErrorSummary = ({ items, onSelect }: {
+  items: ErrorSummaryItem[];
+  onSelect: (item: ErrorSummaryItem) => void;
+}) => {
+  const { t } = useFormContext();
+  const titleId = useId();
+  return (
+    <section className="dynamic-form-error-summary" tabIndex={-1} aria-labelledby={titleId}>
+      <h3 id={titleId} className="dynamic-form-error-summary-title">
+        {t('errorSummary.title', { count: items.length })}
+      </h3>
+      <ul className="dynamic-form-error-summary-list">
+        {items.map((item) => (
+          <li key={item.inputId}>
+            <a
+              href={`#${item.inputId}`}
+              onClick={(event) => {
+                event.preventDefault();
+                onSelect(item);
+              }}
+            >
+              {item.label}: {item.message}
+            </a>
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+interface DynamicFormProps<TValues extends FieldValues = FieldValues> extends DynamicFormOptions<TValues> {
+  /** Schemas from `defineForm` also type `onSubmit`'s data */
+  schema: TypedFormSchema<TValues>;
+  submitButtonText?: LocalizedText;
+  nextButtonText?: LocalizedText;
+  backButtonText?: LocalizedText;
   showMeta?: boolean;
   className?: string;
+  /** Imperative access for edit flows and buttons outside the form */
+  ref?: React.Ref<DynamicFormHandle<TValues>>;
+  /** Submit button label while `onSubmit` is pending */
+  submittingButtonText?: LocalizedText;
+  retryButtonText?: LocalizedText;
+  /** Replaces the form after a successful submit; `reset` brings the form back empty */
+  successView?: React.ReactNode | ((data: TValues, reset: () => void) => React.ReactNode);
+  /** `light`, `dark`, `auto` (follows the system), or token overrides on one; merged over FormThemeProvider's */
+  theme?: ThemeProp;
 }
 
-export const DynamicForm: React.FC<DynamicFormProps> = ({
+/** Sets the locale and messages for every DynamicForm below it */
+export const FormLocaleProvider = ({ locale, messages, children }: FormLocale & { children: React.ReactNode }) => {
+  const value = useMemo(() => ({ locale, messages }), [locale, messages]);
+  return <FormLocaleContext.Provider value={value}>{children}</FormLocaleContext.Provider>;
+};
+
+const FormThemeContext = createContext<ThemeProp | undefined>(undefined);
+
+/** Sets the theme for every DynamicForm below it */
+export const FormThemeProvider = ({ theme, children }: { theme: ThemeProp; children: React.ReactNode }) => (
+  <FormThemeContext.Provider value={theme}>{children}</FormThemeContext.Provider>
+);
+
+/** Makes a useDynamicForm result available to useDynamicField and the built-in fields below it */
+export const DynamicFormProvider = ({ form, children }: { form: Pick<DynamicFormController, 'context'>; children: React.ReactNode }) => (
+  <FormContext.Provider value={form.context}>{children}</FormContext.Provider>
+);
+
+export const DynamicForm = <TValues extends FieldValues = FieldValues>({
   schema,
   onSubmit,
-  submitButtonText = 'Submit',
+  submitButtonText = 'form.submit',
+  nextButtonText = 'form.next',
+  backButtonText = 'form.back',
   showMeta = true,
   className = '',
-}) => {
-  const zodSchema = useMemo(() => buildZodSchema(schema), [schema]);
-  const defaultValues = useMemo(() => getDefaultValues(schema), [schema]);
-
-  const { register, handleSubmit, watch, setValue, formState: { errors, touchedFields } } = useForm({
-    resolver: zodResolver(zodSchema),
-    defaultValues,
-    mode: 'onChange',
+  renderers,
+  ref,
+  submittingButtonText = 'form.submitting',
+  submitErrorText,
+  retryButtonText = 'form.retry',
+  successView,
+  onSubmitStart,
+  onSubmitSuccess,
+  onSubmitError,
+  draftStorage,
+  locale,
+  messages,
+  theme,
+}: DynamicFormProps<TValues>) => {
+  const form = useDynamicForm(schema, {
+    onSubmit,
+    renderers,
+    submitErrorText,
+    onSubmitStart,
+    onSubmitSuccess,
+    onSubmitError,
+    draftStorage,
+    locale,
+    messages,
   });
+  const { t, wizard, draft, submitStatus, submitted, formError, errorSummary, announcement } = form;
+  const inheritedTheme = useContext(FormThemeContext);
+  const { name: themeName, style: themeStyle } = resolveTheme(inheritedTheme, theme);
+  const currentStep = wizard.steps[wizard.position];
+  const layoutKeyPrefix = wizard.enabled ? `${currentStep?.index}-` : '';
 
-  const formValues = watch();
-
-  const isFieldVisible = (fieldId: string): boolean => {
-    const field = schema.fields[fieldId];
-    if (!field?.visibleWhen) return true;
-    return evaluateVisibility(field.visibleWhen, formValues);
-  };
-
-  const contextValue: FormContextValue = {
-    schema,
-    formValues,
-    errors,
-    touchedFields: new Set(Object.keys(touchedFields)),
-    isFieldVisible,
-    register,
-    setValue,
-  };
+  useImperativeHandle(ref, () => form.handle);
 
   return (
-    <FormContext.Provider value={contextValue}>
-      <div className={`dynamic-form ${className}`}>
+    <DynamicFormProvider form={form}>
+      <div
+        className={`dynamic-form ${className}`}
+        data-submit-status={submitStatus}
+        data-theme={themeName}
+        style={themeStyle}
+        lang={t.locale}
+        dir={isRtlLocale(t.locale) ? 'rtl' : 'ltr'}
+      >
         {showMeta && (schema.meta.title || schema.meta.subtitle) && (
           <div className="dynamic-form-header">
-            {schema.meta.title && <h2 className="dynamic-form-title">{schema.meta.title}</h2>}
-            {schema.meta.subtitle && <p className="dynamic-form-subtitle">{schema.meta.subtitle}</p>}
+            {schema.meta.title && <h2 className="dynamic-form-title">{t(schema.meta.title)}</h2>}
+            {schema.meta.subtitle && <p className="dynamic-form-subtitle">{t(schema.meta.subtitle)}</p>}
           </div>
         )}
 
-        <form onSubmit={handleSubmit(onSubmit)} className="dynamic-form-body">
-          {schema.layout.map((layoutNode, index) => (
-            <LayoutRenderer key={index} layout={layoutNode} />
-          ))}
-
-          <div className="dynamic-form-footer">
-            <button type="submit" className="dynamic-form-submit">
-              {submitButtonText}
-            </button>
+        {submitStatus === 'success' && successView && submitted ? (
+          <div className="dynamic-form-success" role="status">
+            {typeof successView === 'function' ? successView(submitted.data, () => form.reset()) : successView}
           </div>
-        </form>
+        ) : (
+          // noValidate: the schema validates, and its errors reach the summary and screen readers
+          <form ref={form.formRef} onSubmit={form.handleSubmit} className="dynamic-form-body" aria-busy={form.isSubmitting} noValidate>
+            {draft.storedDraft && (
+              <div className="dynamic-form-draft" role="status">
+                <span>
+                  {t('draft.prompt', {
+                    savedAt: formatDate(draft.storedDraft.savedAt, t.locale, { dateStyle: 'medium', timeStyle: 'short' }),
+                  })}
+                </span>
+                <div className="dynamic-form-draft-actions">
+                  <button type="button" className="dynamic-form-draft-restore" onClick={draft.restore}>
+                    {t('draft.restore')}
+                  </button>
+                  <button type="button" className="dynamic-form-draft-discard" onClick={draft.discard}>
+                    {t('draft.discard')}
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {formError && (
+              <div className="dynamic-form-error" role="alert">
+                <ErrorIcon />
+                <span>{formError}</span>
+                {form.canRetry && (
+                  <button type="button" className="dynamic-form-retry" disabled={form.isSubmitting} onClick={form.submit}>
+                    {t(retryButtonText)}
+                  </button>
+                )}
+              </div>
+            )}
+
+            {errorSummary.length > 0 && <ErrorSummary items={errorSummary} onSelect={form.focusError} />}
+
+            {wizard.enabled && wizard.steps.length > 1 && (
+              <WizardProgress steps={wizard.steps} current={wizard.position} onSelect={wizard.goToStep} />
+            )}
+
+            {form.visibleLayout.map((layoutNode, index) => (
+              <LayoutRenderer key={`${layoutKeyPrefix}${index}`} layout={layoutNode} />
+            ))}
+
+            {/* Distinct keys keep React from turning the clicked Next button into a submit button */}
+            <div className="dynamic-form-footer">
+              {wizard.enabled && wizard.position > 0 && (
+                <button key="back" type="button" className="dynamic-form-back" onClick={() => wizard.goToStep(wizard.position - 1)}>
+                  {t(backButtonText)}
+                </button>
+              )}
+              {wizard.enabled && !wizard.isLastStep ? (
+                <button key="next" type="button" className="dynamic-form-submit" onClick={wizard.next}>
+                  {t(nextButtonText)}
+                </button>
+              ) : (
+                <button key="submit" type="submit" className="dynamic-form-submit" disabled={form.isSubmitting}>
+                  {t(form.isSubmitting ? submittingButtonText : submitButtonText)}
+                </button>
+              )}
+            </div>
+          </form>
+        )}
+
+        <div className="dynamic-form-visually-hidden" role="status" aria-live="polite">
+          <span key={announcement.key}>{announcement.text}</span>
+        </div>
       </div>
-    </FormContext.Provider>
+    </DynamicFormProvider>
   );
 };
 
-export default DynamicForm;
\ No newline at end of file
+export default DynamicForm;
+
+export type {
+  FieldRenderer,
+  VisibilityOperator,
+  LayoutKind,
+  Breakpoint,
+  BreakpointWidths,
+  Responsive,
+  HiddenFieldBehavior,
+  LayoutMode,
+  VisibilityCondition,
+  VisibilityRule,
+  ValidationRules,
+  AsyncValidationRule,
+  SelectOption,
+  OptionSource,
+  OptionsPage,
+  OptionsLoader,
+  ComputedValue,
+  FieldDefinition,
+  LayoutNode,
+  FieldEffect,
+  FormSchema,
+  TypedFormSchema,
+  DynamicFormHandle,
+  DynamicFormOptions,
+  DynamicFormController,
+  SubmitStatus,
+  ErrorSummaryItem,
+  DraftStorage,
+  CustomFieldProps,
+  CustomRenderer,
+  RendererRegistry,
+} from './headless';
+
+export type { LocalizedText, FormMessages, Translate } from './i18n';
+export type { ThemeName, ThemeToken, ThemeTokens, FormTheme, ThemeProp } from './theme';
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { SubmissionError } from './SubmissionError';
+
+describe('SubmissionError.fromResponseBody', () => {
+  it('reads field errors under `errors` and the message under `message`', () => {
+    const error = SubmissionError.fromResponseBody({
+      errors: { email: 'Already registered', tags: ['Too many', 3], ignored: { nested: true } },
+      message: 'Validation failed',
+    });
+    expect(error.fieldErrors).toEqual({ email: 'Already registered', tags: ['Too many', '3'] });
+    expect(error.formError).toBe('Validation failed');
+    expect(error.message).toBe('Validation failed');
+  });
+
+  it('prefers `fieldErrors` and `formError` when both shapes are present', () => {
+    const error = SubmissionError.fromResponseBody({
+      fieldErrors: { email: 'Taken' },
+      errors: { email: 'Ignored' },
+      formError: 'Check the form',
+      message: 'Ignored',
+    });
+    expect(error.fieldErrors).toEqual({ email: 'Taken' });
+    expect(error.formError).toBe('Check the form');
+  });
+
+  it('uses a plain string body as the form error and ignores anything else', () => {
+    expect(SubmissionError.fromResponseBody('Service unavailable').formError).toBe('Service unavailable');
+    const error = SubmissionError.fromResponseBody(null);
+    expect(error.fieldErrors).toEqual({});
+    expect(error.formError).toBeUndefined();
+    expect(error.message).toBe('The submission was rejected');
+  });
+});
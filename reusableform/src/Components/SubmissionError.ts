@@ -0,0 +1,57 @@
+/**
+ * ================================================================
+ * SERVER-SIDE SUBMISSION ERRORS
+ * ================================================================
+ *
+ * `onSubmit` reports a rejected submission either by returning a SubmitResult
+ * or by throwing a SubmissionError. Field errors are keyed by field id, or by a
+ * path into array rows (`drivers.0.driverName` or `drivers[0].driverName`).
+ * Errors for fields the form isn't showing end up in the form-level banner.
+ *
+ * Usage:
+ * const handleSubmit = async (data) => {
+ *   const response = await fetch('/api/agents', { method: 'POST', body: JSON.stringify(data) });
+ *   if (response.status === 422) throw SubmissionError.fromResponseBody(await response.json());
+ * };
+ */
+
+export type ServerFieldErrors = Record<string, string | string[]>;
+
+export interface SubmitResult {
+  fieldErrors?: ServerFieldErrors;
+  /** Shown in a banner above the fields */
+  formError?: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+export class SubmissionError extends Error implements SubmitResult {
+  fieldErrors: ServerFieldErrors;
+  formError?: string;
+
+  constructor({ fieldErrors = {}, formError }: SubmitResult) {
+    super(formError || 'The submission was rejected');
+    this.name = 'SubmissionError';
+    this.fieldErrors = fieldErrors;
+    this.formError = formError;
+  }
+
+  /**
+   * Reads the common error body shapes: field errors under `errors` or
+   * `fieldErrors`, and a form-level message under `formError` or `message`.
+   */
+  static fromResponseBody(body: unknown): SubmissionError {
+    if (!isRecord(body)) return new SubmissionError({ formError: typeof body === 'string' ? body : undefined });
+
+    const source = isRecord(body.fieldErrors) ? body.fieldErrors : isRecord(body.errors) ? body.errors : {};
+    const fieldErrors: ServerFieldErrors = {};
+    Object.entries(source).forEach(([path, message]) => {
+      if (typeof message === 'string') fieldErrors[path] = message;
+      else if (Array.isArray(message)) fieldErrors[path] = message.map(String);
+    });
+
+    const formError = typeof body.formError === 'string' ? body.formError : typeof body.message === 'string' ? body.message : undefined;
+    return new SubmissionError({ fieldErrors, formError });
+  }
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { compileExpression, ExpressionError, sortDependencies } from './expressions';
+
+const evaluate = (source: string, values: Record<string, unknown> = {}) => compileExpression(source).evaluate(values);
+
+describe('compileExpression', () => {
+  it('binds operators by precedence and associates left to right', () => {
+    expect(evaluate('1 + 2 * 3')).toBe(7);
+    expect(evaluate('(1 + 2) * 3')).toBe(9);
+    expect(evaluate('10 - 4 - 3')).toBe(3);
+    expect(evaluate('-2 * 3 + 10 % 4')).toBe(-4);
+    expect(evaluate('1 + 1 == 2 && 3 > 2')).toBe(true);
+    expect(evaluate('false || 2 < 1 ? "yes" : "no"')).toBe('no');
+  });
+
+  it('reads field values, treating numeric strings as numbers', () => {
+    const finalPrice = compileExpression('round(price * (1 - discount / 100), 2)');
+    expect(finalPrice.deps).toEqual(['price', 'discount']);
+    expect(finalPrice.evaluate({ price: '1200', discount: '15' })).toBe(1020);
+    expect(evaluate('first + " " + last', { first: 'Ada', last: 'Lovelace' })).toBe('Ada Lovelace');
+  });
+
+  it('gives an empty result rather than 0 for arithmetic on an empty value', () => {
+    expect(evaluate('price * 2', { price: '' })).toBeNull();
+    expect(evaluate('(price || 0) * 2', { price: '' })).toBe(0);
+  });
+
+  it.each([
+    ['price *', 'Unexpected end of expression at position 7'],
+    ['price + )', 'Unexpected ")" at position 8'],
+    ['sqrt(4)', 'Unknown function "sqrt" at position 0'],
+    ["'open", 'Unterminated string at position 0'],
+    ['a # b', 'Unexpected "#" at position 2'],
+    ['max(1, 2', 'Expected ")" at position 8'],
+    ['a b', 'Unexpected "b" at position 2'],
+  ])('rejects %j', (source, message) => {
+    expect(() => compileExpression(source)).toThrow(ExpressionError);
+    expect(() => compileExpression(source)).toThrow(message);
+  });
+});
+
+describe('sortDependencies', () => {
+  it('orders keys after the keys they depend on, ignoring outside dependencies', () => {
+    expect(sortDependencies({ total: ['subtotal', 'tax'], tax: ['subtotal'], subtotal: ['price'] })).toEqual({
+      order: ['subtotal', 'tax', 'total'],
+    });
+  });
+
+  it('reports a cycle with its first key repeated', () => {
+    expect(sortDependencies({ a: ['b'], b: ['c'], c: ['a'] }).cycle).toEqual(['a', 'b', 'c', 'a']);
+    expect(sortDependencies({ a: ['a'] }).cycle).toEqual(['a', 'a']);
+  });
+});
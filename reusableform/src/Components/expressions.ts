@@ -0,0 +1,364 @@
+/**
+ * ================================================================
+ * VALUE EXPRESSIONS
+ * ================================================================
+ *
+ * A small formula language for computed fields. Expressions are parsed, never
+ * passed to `eval`: they can read form values by field id and call the
+ * functions listed below, nothing else.
+ *
+ * Syntax:
+ * - literals: 12, 0.5, 'text', "text", true, false, null
+ * - field ids: price, discountPercentage
+ * - operators: + - * / %, == != < <= > >=, && || !, cond ? a : b, ( )
+ * - functions: min, max, round(value, digits?), floor, ceil, abs
+ *
+ * Inputs report numbers as strings, so numeric-looking values are treated as
+ * numbers. Arithmetic on an empty value gives an empty result rather than 0;
+ * write `discountPercentage || 0` to fall back explicitly.
+ *
+ * Usage:
+ * const finalPrice = compileExpression('round(price * (1 - discount / 100), 2)');
+ * finalPrice.deps;                                        // ['price', 'discount']
+ * finalPrice.evaluate({ price: '1200', discount: '15' }); // 1020
+ */
+
+type BinaryOperator = '+' | '-' | '*' | '/' | '%' | '==' | '!=' | '<' | '<=' | '>' | '>=' | '&&' | '||';
+
+type ExpressionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'field'; name: string }
+  | { type: 'unary'; op: '!' | '-' | '+'; operand: ExpressionNode }
+  | { type: 'binary'; op: BinaryOperator; left: ExpressionNode; right: ExpressionNode }
+  | { type: 'conditional'; test: ExpressionNode; consequent: ExpressionNode; alternate: ExpressionNode }
+  | { type: 'call'; name: string; args: ExpressionNode[] };
+
+export interface CompiledExpression {
+  source: string;
+  /** Field ids the expression reads, in order of first use */
+  deps: string[];
+  /** Non-finite numbers (e.g. from an empty input) come back as null */
+  evaluate: (values: Record<string, unknown>) => unknown;
+}
+
+export class ExpressionError extends Error {
+  /** Offset into the source where the problem was found */
+  position: number;
+
+  constructor(message: string, source: string, position: number) {
+    super(`${message} at position ${position} in "${source}"`);
+    this.name = 'ExpressionError';
+    this.position = position;
+  }
+}
+
+// ================================================================
+// VALUES
+// ================================================================
+
+const toNumber = (value: unknown): number => {
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 1 : 0;
+  if (typeof value === 'string' && value.trim() !== '') return Number(value);
+  return NaN;
+};
+
+const isNumeric = (value: unknown): boolean => Number.isFinite(toNumber(value));
+
+const FUNCTIONS: Record<string, (...args: unknown[]) => unknown> = {
+  min: (...args) => Math.min(...args.map(toNumber)),
+  max: (...args) => Math.max(...args.map(toNumber)),
+  round: (value, digits) => {
+    const factor = 10 ** (digits === undefined ? 0 : toNumber(digits));
+    return Math.round(toNumber(value) * factor) / factor;
+  },
+  floor: (value) => Math.floor(toNumber(value)),
+  ceil: (value) => Math.ceil(toNumber(value)),
+  abs: (value) => Math.abs(toNumber(value)),
+};
+
+const compare = (op: BinaryOperator, left: unknown, right: unknown): boolean => {
+  if (op === '==' || op === '!=') {
+    const equal = isNumeric(left) && isNumeric(right) ? toNumber(left) === toNumber(right) : left === right;
+    return op === '==' ? equal : !equal;
+  }
+  if (left === undefined || left === null || right === undefined || right === null) return false;
+  const order = isNumeric(left) && isNumeric(right)
+    ? toNumber(left) - toNumber(right)
+    : String(left).localeCompare(String(right));
+  if (op === '<') return order < 0;
+  if (op === '<=') return order <= 0;
+  if (op === '>') return order > 0;
+  return order >= 0;
+};
+
+const applyBinary = (op: BinaryOperator, left: unknown, right: unknown): unknown => {
+  switch (op) {
+    case '+': {
+      // Text joins as text; numbers and numeric strings add up
+      const isText = (value: unknown) => typeof value === 'string' && value.trim() !== '' && !isNumeric(value);
+      if (isText(left) || isText(right)) return `${left ?? ''}${right ?? ''}`;
+      return toNumber(left) + toNumber(right);
+    }
+    case '-':
+      return toNumber(left) - toNumber(right);
+    case '*':
+      return toNumber(left) * toNumber(right);
+    case '/':
+      return toNumber(left) / toNumber(right);
+    case '%':
+      return toNumber(left) % toNumber(right);
+    default:
+      return compare(op, left, right);
+  }
+};
+
+const evaluateNode = (node: ExpressionNode, values: Record<string, unknown>): unknown => {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'field':
+      return Object.hasOwn(values, node.name) ? values[node.name] : undefined;
+    case 'unary': {
+      const operand = evaluateNode(node.operand, values);
+      if (node.op === '!') return !operand;
+      return node.op === '-' ? -toNumber(operand) : toNumber(operand);
+    }
+    case 'binary': {
+      const left = evaluateNode(node.left, values);
+      if (node.op === '&&') return left ? evaluateNode(node.right, values) : left;
+      if (node.op === '||') return left ? left : evaluateNode(node.right, values);
+      return applyBinary(node.op, left, evaluateNode(node.right, values));
+    }
+    case 'conditional':
+      return evaluateNode(node.test, values)
+        ? evaluateNode(node.consequent, values)
+        : evaluateNode(node.alternate, values);
+    case 'call':
+      return FUNCTIONS[node.name](...node.args.map((arg) => evaluateNode(arg, values)));
+  }
+};
+
+// ================================================================
+// PARSER
+// ================================================================
+
+type Token =
+  | { type: 'number' | 'string'; value: number | string; position: number }
+  | { type: 'name' | 'punct'; value: string; position: number }
+  | { type: 'end'; value: ''; position: number };
+
+// Longest first, so `<=` isn't read as `<` followed by `=`
+const PUNCTUATION = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '+', '-', '*', '/', '%', '<', '>', '!', '?', ':', '(', ')', ','];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < source.length) {
+    const char = source[index];
+    if (/\s/.test(char)) {
+      index += 1;
+      continue;
+    }
+
+    const number = /^(\d+\.?\d*|\.\d+)([eE][+-]?\d+)?/.exec(source.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]), position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const name = /^[A-Za-z_$][\w$]*/.exec(source.slice(index));
+    if (name) {
+      tokens.push({ type: 'name', value: name[0], position: index });
+      index += name[0].length;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < source.length && source[end] !== char) {
+        if (source[end] === '\\') end += 1;
+        value += source[end] ?? '';
+        end += 1;
+      }
+      if (end >= source.length) throw new ExpressionError('Unterminated string', source, index);
+      tokens.push({ type: 'string', value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const punct = PUNCTUATION.find((candidate) => source.startsWith(candidate, index));
+    if (!punct) throw new ExpressionError(`Unexpected "${char}"`, source, index);
+    // `===` and `!==` mean the same as `==` and `!=`; there is only one kind of equality
+    tokens.push({ type: 'punct', value: punct.length === 3 ? punct.slice(0, 2) : punct, position: index });
+    index += punct.length;
+  }
+
+  tokens.push({ type: 'end', value: '', position: source.length });
+  return tokens;
+};
+
+const LITERALS: Record<string, unknown> = { true: true, false: false, null: null };
+
+/** Binary operators from loosest to tightest binding */
+const PRECEDENCE: BinaryOperator[][] = [['||'], ['&&'], ['==', '!='], ['<', '<=', '>', '>='], ['+', '-'], ['*', '/', '%']];
+
+const parse = (source: string): ExpressionNode => {
+  const tokens = tokenize(source);
+  let index = 0;
+
+  const peek = () => tokens[index];
+  const fail = (message: string, token = peek()): never => {
+    throw new ExpressionError(message, source, token.position);
+  };
+  const accept = (punct: string): boolean => {
+    const token = peek();
+    if (token.type !== 'punct' || token.value !== punct) return false;
+    index += 1;
+    return true;
+  };
+  const expect = (punct: string) => {
+    if (!accept(punct)) fail(`Expected "${punct}"`);
+  };
+
+  const parseConditional = (): ExpressionNode => {
+    const test = parseBinary(0);
+    if (!accept('?')) return test;
+    const consequent = parseConditional();
+    expect(':');
+    return { type: 'conditional', test, consequent, alternate: parseConditional() };
+  };
+
+  const parseBinary = (level: number): ExpressionNode => {
+    if (level === PRECEDENCE.length) return parseUnary();
+    let left = parseBinary(level + 1);
+    for (;;) {
+      const token = peek();
+      const op = PRECEDENCE[level].find((candidate) => token.type === 'punct' && token.value === candidate);
+      if (!op) return left;
+      index += 1;
+      left = { type: 'binary', op, left, right: parseBinary(level + 1) };
+    }
+  };
+
+  const parseUnary = (): ExpressionNode => {
+    for (const op of ['!', '-', '+'] as const) {
+      if (accept(op)) return { type: 'unary', op, operand: parseUnary() };
+    }
+    return parsePrimary();
+  };
+
+  const parsePrimary = (): ExpressionNode => {
+    const token = peek();
+    index += 1;
+
+    if (token.type === 'number' || token.type === 'string') return { type: 'literal', value: token.value };
+    if (token.type === 'punct' && token.value === '(') {
+      const inner = parseConditional();
+      expect(')');
+      return inner;
+    }
+    if (token.type === 'name') {
+      if (Object.hasOwn(LITERALS, token.value)) return { type: 'literal', value: LITERALS[token.value] };
+      if (!accept('(')) return { type: 'field', name: token.value };
+
+      if (!Object.hasOwn(FUNCTIONS, token.value)) fail(`Unknown function "${token.value}"`, token);
+      const args: ExpressionNode[] = [];
+      if (!accept(')')) {
+        do args.push(parseConditional());
+        while (accept(','));
+        expect(')');
+      }
+      return { type: 'call', name: token.value, args };
+    }
+    return fail(token.type === 'end' ? 'Unexpected end of expression' : `Unexpected "${token.value}"`, token);
+  };
+
+  const node = parseConditional();
+  if (peek().type !== 'end') fail(`Unexpected "${peek().value}"`);
+  return node;
+};
+
+const collectFields = (node: ExpressionNode, fields: Set<string>): Set<string> => {
+  switch (node.type) {
+    case 'field':
+      fields.add(node.name);
+      break;
+    case 'unary':
+      collectFields(node.operand, fields);
+      break;
+    case 'binary':
+      collectFields(node.left, fields);
+      collectFields(node.right, fields);
+      break;
+    case 'conditional':
+      collectFields(node.test, fields);
+      collectFields(node.consequent, fields);
+      collectFields(node.alternate, fields);
+      break;
+    case 'call':
+      node.args.forEach((arg) => collectFields(arg, fields));
+      break;
+  }
+  return fields;
+};
+
+const compiledExpressions = new Map<string, CompiledExpression>();
+
+/** Parses an expression once per source string; throws ExpressionError on bad syntax */
+export const compileExpression = (source: string): CompiledExpression => {
+  const cached = compiledExpressions.get(source);
+  if (cached) return cached;
+
+  const node = parse(source);
+  const compiled: CompiledExpression = {
+    source,
+    deps: [...collectFields(node, new Set())],
+    evaluate: (values) => {
+      const result = evaluateNode(node, values);
+      return typeof result === 'number' && !Number.isFinite(result) ? null : result;
+    },
+  };
+  compiledExpressions.set(source, compiled);
+  return compiled;
+};
+
+// ================================================================
+// DEPENDENCY ORDER
+// ================================================================
+
+/**
+ * Orders the keys of a dependency graph so every key comes after the keys it
+ * depends on. Dependencies outside the graph are ignored. When the graph has a
+ * cycle, `cycle` lists it with the first key repeated at the end (a → b → a).
+ */
+export const sortDependencies = (graph: Record<string, string[]>): { order: string[]; cycle?: string[] } => {
+  const order: string[] = [];
+  const done = new Set<string>();
+  const path: string[] = [];
+
+  const visit = (key: string): string[] | undefined => {
+    if (done.has(key)) return undefined;
+    const start = path.indexOf(key);
+    if (start !== -1) return [...path.slice(start), key];
+
+    path.push(key);
+    for (const dep of graph[key]) {
+      const cycle = Object.hasOwn(graph, dep) ? visit(dep) : undefined;
+      if (cycle) return cycle;
+    }
+    path.pop();
+    done.add(key);
+    order.push(key);
+    return undefined;
+  };
+
+  for (const key of Object.keys(graph)) {
+    const cycle = visit(key);
+    if (cycle) return { order, cycle };
+  }
+  return { order };
+};
@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { getGridLayout, resolveResponsive, type LayoutNode } from './headless';
+
+const grid = (cols: LayoutNode['cols'], colSpans: LayoutNode['colSpan'][] = []): LayoutNode => ({
+  kind: 'grid',
+  cols,
+  children: colSpans.map((colSpan, index) => ({ kind: 'field', fieldId: `f${index}`, colSpan })),
+});
+
+describe('resolveResponsive', () => {
+  it('uses the nearest breakpoint at or below the current one', () => {
+    expect(resolveResponsive({ base: 1, md: 2, xl: 4 }, 'lg')).toBe(2);
+    expect(resolveResponsive({ md: 2 }, 'sm')).toBeUndefined();
+    expect(resolveResponsive(3, 'base')).toBe(3);
+  });
+});
+
+describe('getGridLayout', () => {
+  it('stacks a plain column count below md', () => {
+    expect(getGridLayout(grid(3), 'sm').cols).toBe(1);
+    expect(getGridLayout(grid(3), 'md').cols).toBe(3);
+    expect(getGridLayout(grid(undefined), 'lg').cols).toBe(2);
+  });
+
+  it('uses per-breakpoint columns as given and clamps spans to them', () => {
+    const layout = grid({ base: 1, md: 2, lg: 3 }, [{ md: 2, lg: 1 }, 5]);
+    expect(getGridLayout(layout, 'base')).toEqual({ cols: 1, spans: [1, 1] });
+    expect(getGridLayout(layout, 'md')).toEqual({ cols: 2, spans: [2, 2] });
+    expect(getGridLayout(layout, 'xl')).toEqual({ cols: 3, spans: [1, 3] });
+  });
+});
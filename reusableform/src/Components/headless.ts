@@ -0,0 +1,2287 @@
+/**
+ * ================================================================
+ * HEADLESS FORM STATE
+ * ================================================================
+ *
+ * Everything DynamicForm does except rendering: schema types, Zod validation,
+ * visibility, effects, computed values, async checks, option loading, drafts,
+ * wizard steps, error summaries and submission. DynamicForm and its built-in
+ * fields are one skin on top of these hooks; custom markup can be another.
+ *
+ * Usage:
+ * const form = useDynamicForm(schema, { onSubmit: handleSubmit });
+ *
+ * <form ref={form.formRef} onSubmit={form.handleSubmit}>
+ *   <DynamicFormProvider form={form}>
+ *     <EmailInput />
+ *     <DynamicField fieldId="password" />
+ *   </DynamicFormProvider>
+ * </form>
+ *
+ * const EmailInput = () => {
+ *   const { label, error, getInputProps } = useDynamicField('email');
+ *   ...
+ * };
+ *
+ * DynamicFormProvider and DynamicField (the built-in skin for one field) come
+ * from Dynamic.tsx; useDynamicArray gives array fields one provider per row.
+ */
+
+import React, { createContext, useContext, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react';
+import {
+  useFieldArray,
+  useForm,
+  type Control,
+  type FieldErrors,
+  type FieldValues,
+  type FormState,
+  type Resolver,
+  type UseFormRegister,
+  type UseFormReturn,
+  type UseFormSetValue,
+  type UseFormWatch,
+} from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+import { SubmissionError, type ServerFieldErrors, type SubmitResult } from './SubmissionError';
+import { compileExpression, sortDependencies } from './expressions';
+import {
+  createTranslator,
+  DEFAULT_LOCALE,
+  formatDate,
+  type FormMessages,
+  type LocalizedText,
+  type Translate,
+} from './i18n';
+
+// ================================================================
+// SCHEMA AND VALIDATION
+// ================================================================
+
+export type FieldRenderer = 'text' | 'textarea' | 'select' | 'multiselect' | 'number' | 'date' | 'checkbox' | 'radio' | 'switch' | 'file' | 'array';
+export type VisibilityOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'in'
+  | 'gt'
+  | 'gte'
+  | 'lt'
+  | 'lte'
+  | 'contains'
+  | 'isEmpty'
+  | 'isNotEmpty'
+  | 'matches';
+export type LayoutKind = 'section' | 'step' | 'grid' | 'stack' | 'field';
+
+/** Viewport sizes, smallest first; `base` is everything below `sm` */
+export type Breakpoint = 'base' | 'sm' | 'md' | 'lg' | 'xl';
+
+/** Minimum viewport width in px for each breakpoint above `base` */
+export type BreakpointWidths = Record<Exclude<Breakpoint, 'base'>, number>;
+
+/**
+ * One value, or values by breakpoint that hold from that width up:
+ * `{ base: 1, md: 2, lg: 3 }` is one column on phones and three on desktops.
+ */
+export type Responsive<T> = T | Partial<Record<Breakpoint, T>>;
+
+/**
+ * - single: every layout node on one page (default)
+ * - wizard: one step at a time; each top-level `step` or `section` node starts a step
+ */
+export type LayoutMode = 'single' | 'wizard';
+
+/**
+ * What happens to a field while its `visibleWhen` conditions are not met:
+ * - omit: skipped during validation and left out of the submitted data (default)
+ * - clear: same as omit, and the input is reset to its default value when hidden
+ * - validate: validated and submitted like any visible field
+ */
+export type HiddenFieldBehavior = 'omit' | 'clear' | 'validate';
+
+export interface VisibilityCondition {
+  field: string;
+  op: VisibilityOperator;
+  /** Not needed for isEmpty/isNotEmpty; a RegExp or pattern string for matches */
+  value?: unknown;
+  /** Regex flags when `value` is a pattern string */
+  flags?: string;
+}
+
+/**
+ * A single condition or a tree of them. A plain array means "all of", which is
+ * how multiple conditions were written before all/any/not existed.
+ */
+export type VisibilityRule =
+  | VisibilityCondition
+  | VisibilityRule[]
+  | { all: VisibilityRule[] }
+  | { any: VisibilityRule[] }
+  | { not: VisibilityRule };
+
+/**
+ * Messages are LocalizedText and can use `{label}` plus the rule's own value:
+ * `{min}` for minLength/min/minItems, `{max}` for maxLength/max/maxItems.
+ */
+export interface ValidationRules {
+  required?: LocalizedText | boolean;
+  minLength?: { value: number; message: LocalizedText };
+  maxLength?: { value: number; message: LocalizedText };
+  min?: { value: number; message: LocalizedText };
+  max?: { value: number; message: LocalizedText };
+  pattern?: { value: RegExp; message: LocalizedText };
+  /** Returns true, or a message (translated like any other) or false to fail */
+  validate?(value: unknown, formValues: FieldValues): boolean | LocalizedText;
+  /** Other fields `validate` reads; it re-runs whenever one of them changes */
+  deps?: string[];
+  /** Row counts for array fields; `required` alone means at least one row */
+  minItems?: { value: number; message: LocalizedText };
+  maxItems?: { value: number; message: LocalizedText };
+  /** Backend check such as uniqueness; see AsyncValidationRule */
+  asyncValidate?: AsyncValidationRule;
+}
+
+/**
+ * Runs once the other rules pass and the value has settled for `debounceMs`
+ * (default 400). Changing the value aborts `signal`; submit waits for the result.
+ * A rejected promise counts as a pass, leaving the final say to the server.
+ */
+export interface AsyncValidationRule {
+  validate(value: unknown, formValues: FieldValues, signal: AbortSignal): Promise<boolean | string>;
+  debounceMs?: number;
+  /** Used when `validate` resolves to false */
+  message?: LocalizedText;
+}
+
+export type SelectOption = string | { label: LocalizedText; value: string };
+
+/**
+ * Options that depend on another field. `map` is keyed by the parent's value;
+ * `load` fetches them whenever the parent changes and takes precedence over `map`.
+ */
+export interface OptionSource {
+  dependsOn: string;
+  map?: Record<string, SelectOption[]>;
+  load?(parentValue: unknown): Promise<SelectOption[]>;
+  /** Shown while the parent field is empty */
+  placeholder?: LocalizedText;
+}
+
+/** One page of loader results; returning a plain array means there is only one page */
+export interface OptionsPage {
+  options: SelectOption[];
+  hasMore?: boolean;
+}
+
+/**
+ * Fetches options for a search query. Pages start at 0; `signal` aborts when the
+ * query or `cacheKey` changes, or the field unmounts. Each form caches results per
+ * loader, query and `cacheKey`.
+ */
+export type OptionsLoader = ((
+  query: string,
+  formValues: FieldValues,
+  request: { page: number; signal: AbortSignal }
+) => Promise<OptionsPage | SelectOption[]>) & {
+  /** What the results depend on besides the query, for loaders that read `formValues` */
+  cacheKey?: (formValues: FieldValues) => string;
+};
+
+/**
+ * Derives a field's value from other fields. The field is shown read-only and
+ * follows its inputs as they change.
+ * - expression: a formula over field ids, e.g. `price * (1 - discount / 100)`;
+ *   see expressions.ts for the syntax
+ * - compute: a function of the form values; takes precedence over `expression`
+ */
+export interface ComputedValue {
+  expression?: string;
+  compute?(formValues: FieldValues): unknown;
+  /** Fields `compute` reads, so computed fields can be ordered; expressions find their own */
+  deps?: string[];
+  /** Includes the value in the submitted data; computed values are left out by default */
+  submit?: boolean;
+  /** Display text for the value, e.g. with a currency; numbers are localized by default */
+  format?(value: unknown, locale: string): string;
+}
+
+/** Renderer settings by the renderers that read them; custom renderers can add their own */
+export interface FieldProps {
+  /** select, multiselect: static options */
+  data?: SelectOption[];
+  /** radio */
+  options?: { label: LocalizedText; value: string }[];
+  /** select: typeahead over the options; multiselect: a search box */
+  searchable?: boolean;
+  /** multiselect */
+  maxValues?: number;
+  /** Remote search delay for `optionsLoader` fields, 300ms by default */
+  debounceMs?: number;
+  /** select/multiselect with no options, array with no rows */
+  emptyText?: LocalizedText;
+  /** textarea */
+  minRows?: number;
+  /** number */
+  min?: number;
+  max?: number;
+  step?: number;
+  precision?: number;
+  /** date: a Date or a YYYY-MM-DD string */
+  minDate?: Date | string;
+  maxDate?: Date | string;
+  placeholder?: LocalizedText;
+  /** file: an `accept` list and a size limit in bytes */
+  accept?: string;
+  maxSize?: number;
+  /** array: row heading and add button label */
+  itemTitle?: LocalizedText;
+  addLabel?: LocalizedText;
+  [key: string]: unknown;
+}
+
+export interface FieldDefinition {
+  id: string;
+  label: LocalizedText;
+  /** A built-in renderer or the name of one passed through `DynamicForm`'s `renderers` prop */
+  renderer: FieldRenderer | (string & {});
+  inputType?: string;
+  placeholder?: LocalizedText;
+  defaultValue?: unknown;
+  props?: FieldProps;
+  rules?: ValidationRules;
+  visibleWhen?: VisibilityRule;
+  /** Computes select/multiselect options from another field instead of `props.data` */
+  optionsFrom?: OptionSource;
+  /** Searches options remotely; the field gets a typeahead instead of a static list */
+  optionsLoader?: OptionsLoader;
+  /** Never written to draft storage; password inputs and file fields are always left out */
+  sensitive?: boolean;
+  computed?: ComputedValue;
+  /**
+   * Row definition for `array` fields. Row fields are addressed by their own ids,
+   * so their `visibleWhen` conditions refer to siblings in the same row.
+   */
+  item?: {
+    fields: Record<string, FieldDefinition>;
+    /** Defaults to stacking every row field */
+    layout?: LayoutNode[];
+  };
+}
+
+export type LayoutNode = {
+  kind: LayoutKind;
+  /** Stable key for the node; used to remember collapsed state (falls back to the title) */
+  id?: string;
+  fieldId?: string;
+  /** Columns a grid child spans; never more than the grid has at that breakpoint */
+  colSpan?: Responsive<number>;
+  title?: LocalizedText;
+  subtitle?: LocalizedText;
+  withDivider?: boolean;
+  collapsible?: boolean;
+  defaultCollapsed?: boolean;
+  /**
+   * Grid columns, 2 by default. A plain number collapses to one column below the
+   * `md` breakpoint; per-breakpoint values are used as given, with one column
+   * below the smallest breakpoint they name.
+   */
+  cols?: Responsive<number>;
+  spacing?: 'sm' | 'md' | 'lg';
+  children?: LayoutNode[];
+  /** Hides the node and every field inside it */
+  visibleWhen?: VisibilityRule;
+  /** Hides a section, grid or stack (header included) while every field inside it is hidden */
+  hideWhenEmpty?: boolean;
+};
+
+/**
+ * A reaction declared on the schema. When a field listed in `on` changes, `set`
+ * and `clear` are applied if `if` holds for the new values. `disable`/`enable`
+ * are states rather than reactions: they follow `if` at all times.
+ *
+ * Effects run in the order they are listed. Changes an effect makes can trigger
+ * further effects, but each effect runs at most once per change, so effects that
+ * update each other's fields can't loop.
+ */
+export interface FieldEffect {
+  on?: string | string[];
+  if?: VisibilityRule;
+  /** Values to assign, keyed by field id */
+  set?: Record<string, unknown>;
+  /** Fields to reset to their default values */
+  clear?: string[];
+  /** Disabled while `if` holds, or always without one */
+  disable?: string[];
+  /** Disabled unless `if` holds */
+  enable?: string[];
+}
+
+export interface FormSchema {
+  id: string;
+  meta: {
+    title: LocalizedText;
+    subtitle?: LocalizedText;
+    description?: LocalizedText;
+  };
+  fields: Record<string, FieldDefinition>;
+  layout: LayoutNode[];
+  hiddenFields?: HiddenFieldBehavior;
+  layoutMode?: LayoutMode;
+  /** Remembers which collapsible sections are open in localStorage, keyed by `id` */
+  rememberCollapsed?: boolean;
+  /** Bump when fields change meaning so drafts saved by older versions are ignored */
+  version?: string | number;
+  /** Saves unsent values as a draft and offers to restore them on the next visit */
+  saveDraft?: boolean | { debounceMs?: number };
+  /**
+   * Reactions to value changes and conditional disabling; see FieldEffect.
+   * Disabled fields are skipped by validation and left out of the submitted data.
+   */
+  effects?: FieldEffect[];
+  /** Overrides the default breakpoint widths (sm 640, md 768, lg 1024, xl 1280) */
+  breakpoints?: Partial<BreakpointWidths>;
+}
+
+/** A FormSchema that carries the type of its submitted values; see defineForm */
+export type TypedFormSchema<TValues> = FormSchema & { readonly __values?: TValues };
+
+export interface FormContextValue {
+  schema: FormSchema;
+  formValues: FieldValues;
+  errors: FieldErrors;
+  touchedFields: Set<string>;
+  /** Fields waiting on an `asyncValidate` result */
+  pendingFields: ReadonlySet<string>;
+  /** Raw nested touched state, used to scope `touchedFields` to array rows */
+  touchedTree: FormState<FieldValues>['touchedFields'];
+  submitCount: number;
+  isFieldVisible: (fieldId: string) => boolean;
+  isFieldDisabled: (fieldId: string) => boolean;
+  isLayoutVisible: (node: LayoutNode) => boolean;
+  /** The viewport's current breakpoint, for responsive grids */
+  breakpoint: Breakpoint;
+  /** `optionsFrom.load` results this form has loaded; dropped with the form */
+  loadedOptions: LoadedOptionsCache;
+  /** Remote option pages this form has loaded; dropped with the form */
+  optionsCache: RemoteOptionsCache;
+  register: UseFormRegister<FieldValues>;
+  setValue: UseFormSetValue<FieldValues>;
+  control: Control<FieldValues>;
+  /** Path of the current array row (e.g. `drivers.0.`), empty at the top level */
+  namePrefix: string;
+  /** DOM id for a field's input, unique even when rows repeat the same field ids */
+  getInputId: (fieldId: string) => string;
+  renderers: RendererRegistry;
+  locale: string;
+  t: Translate;
+}
+
+/** Everything a custom renderer needs to behave like the built-in fields */
+export interface CustomFieldProps {
+  fieldId: string;
+  field: FieldDefinition;
+  value: unknown;
+  error?: { message?: string };
+  touched: boolean;
+  /** An `asyncValidate` check is in flight */
+  pending: boolean;
+  /** Disabled by a schema effect; the value is neither validated nor submitted */
+  disabled: boolean;
+  formValues: FieldValues;
+  isFieldVisible: (fieldId: string) => boolean;
+  register: FormContextValue['register'];
+  setValue: FormContextValue['setValue'];
+  /** Sets the value and marks the field dirty and touched, then validates it */
+  onChange: (value: unknown) => void;
+  /** Resolves the field's LocalizedText (label, placeholder) for the form's locale */
+  t: Translate;
+  locale: string;
+  /** Id for the field's input; the error summary links to it and submit focuses it */
+  inputId: string;
+  /** `aria-invalid`, `aria-required` and `aria-describedby` for the input; render the error with id `${inputId}-error` */
+  aria: ReturnType<typeof getFieldAria>;
+}
+
+export interface CustomRenderer {
+  component: React.ComponentType<CustomFieldProps>;
+  /** Builds the value schema for a field; applying `field.rules` (and translating their messages) is up to the factory */
+  schema: (field: FieldDefinition, t: Translate) => z.ZodTypeAny;
+  defaultValue?: unknown;
+}
+
+export type RendererRegistry = Record<string, CustomRenderer>;
+
+export const FormContext = createContext<FormContextValue | null>(null);
+
+export const useFormContext = () => {
+  const context = useContext(FormContext);
+  if (!context) throw new Error('useFormContext must be used within DynamicFormProvider');
+  return context;
+};
+
+/** The message for a `required` rule; `true` gets the built-in one */
+const getRequiredMessage = (required: ValidationRules['required'], t: Translate, values?: Record<string, unknown>) =>
+  t(typeof required === 'boolean' || required === undefined ? 'validation.required' : required, values);
+
+/**
+ * Builds the Zod schema for a form. When `formValues` is given, fields hidden by
+ * their `visibleWhen` conditions are left out (unless the schema opts into
+ * validating hidden fields), so they neither block submission nor end up in the
+ * parsed output. Messages are translated with `t` as the schema is built.
+ */
+const buildZodSchema = (
+  schema: FormSchema,
+  formValues: FieldValues | undefined,
+  renderers: RendererRegistry,
+  t: Translate
+): z.ZodObject => {
+  const schemaShape: Record<string, z.ZodTypeAny> = {};
+  const skipHidden = formValues !== undefined && schema.hiddenFields !== 'validate';
+
+  Object.entries(schema.fields).forEach(([fieldId, fieldDef]) => {
+    if (skipHidden && !isFieldVisibleIn(schema, fieldId, formValues)) return;
+    if (formValues !== undefined && isFieldDisabledIn(schema, fieldId, formValues)) return;
+    if (fieldDef.computed && !fieldDef.computed.submit) return;
+
+    const customRenderer = renderers[fieldDef.renderer];
+    if (customRenderer) {
+      schemaShape[fieldId] = customRenderer.schema(fieldDef, t);
+      return;
+    }
+
+    if (fieldDef.renderer === 'array') {
+      schemaShape[fieldId] = buildArraySchema(schema, fieldId, formValues?.[fieldId], renderers, t);
+      return;
+    }
+
+    let fieldSchema: z.ZodTypeAny;
+    const label = t(fieldDef.label);
+
+    switch (fieldDef.renderer) {
+      case 'number':
+        schemaShape[fieldId] = buildNumberSchema(fieldDef, t);
+        return;
+      case 'checkbox':
+      case 'switch':
+        fieldSchema = z.boolean();
+        break;
+      case 'multiselect': {
+        const maxValues = fieldDef.props?.maxValues;
+        fieldSchema = maxValues
+          ? z.array(z.string()).max(maxValues, t('validation.maxValues', { label, max: maxValues }))
+          : z.array(z.string());
+        break;
+      }
+      case 'date':
+        fieldSchema = buildDateSchema(fieldDef, t);
+        break;
+      case 'file':
+        schemaShape[fieldId] = buildFileSchema(fieldDef, t);
+        return;
+      default:
+        fieldSchema = z.string();
+    }
+
+    const rules = fieldDef.rules;
+    if (!rules) {
+      schemaShape[fieldId] = fieldSchema.optional();
+      return;
+    }
+
+    if (fieldSchema instanceof z.ZodString) {
+      let stringSchema = fieldSchema as z.ZodString;
+      
+      if (rules.required) {
+        stringSchema = stringSchema.min(1, getRequiredMessage(rules.required, t, { label }));
+      }
+      if (rules.minLength) {
+        const min = rules.minLength.value;
+        stringSchema = stringSchema.min(min, t(rules.minLength.message, { label, min }));
+      }
+      if (rules.maxLength) {
+        const max = rules.maxLength.value;
+        stringSchema = stringSchema.max(max, t(rules.maxLength.message, { label, max }));
+      }
+      if (rules.pattern) {
+        stringSchema = stringSchema.regex(rules.pattern.value, t(rules.pattern.message, { label }));
+      }
+      if (fieldDef.inputType === 'email') {
+        stringSchema = stringSchema.email(t('validation.email', { label }));
+      }
+      if (fieldDef.inputType === 'url') {
+        stringSchema = stringSchema.url(t('validation.url', { label }));
+      }
+      
+      fieldSchema = !rules.required ? stringSchema.optional() : stringSchema;
+    }
+
+    if (fieldSchema instanceof z.ZodBoolean && rules.required) {
+      fieldSchema = fieldSchema.refine((val) => val === true, { message: getRequiredMessage(rules.required, t, { label }) });
+    }
+
+    if (fieldSchema instanceof z.ZodArray) {
+      let arraySchema = fieldSchema as z.ZodArray<z.ZodTypeAny>;
+      
+      if (rules.required) {
+        arraySchema = arraySchema.min(1, getRequiredMessage(rules.required, t, { label }));
+      }
+      
+      fieldSchema = !rules.required ? arraySchema.optional() : arraySchema;
+    }
+
+    schemaShape[fieldId] = fieldSchema;
+  });
+
+  // Custom validators run as object-level refinements so they can see sibling
+  // values. `when` keeps them running even after another field failed its type check.
+  return Object.entries(schema.fields).reduce((objectSchema, [fieldId, fieldDef]) => {
+    const validate = fieldDef.rules?.validate;
+    if (!validate || !(fieldId in schemaShape)) return objectSchema;
+
+    return objectSchema.refine((values) => validate(values[fieldId], values) === true, {
+      path: [fieldId],
+      when: () => true,
+      error: (issue) => {
+        const values = issue.input as FieldValues;
+        const result = validate(values[fieldId], values);
+        return t(typeof result === 'boolean' ? 'validation.invalid' : result, { label: t(fieldDef.label) });
+      },
+    });
+  }, z.object(schemaShape));
+};
+
+const itemSchemaCache = new WeakMap<FieldDefinition, FormSchema>();
+
+/** Wraps an array field's row definition in a FormSchema so rows reuse the form machinery */
+export const getItemSchema = (schema: FormSchema, fieldId: string): FormSchema => {
+  const field = schema.fields[fieldId];
+  const cached = itemSchemaCache.get(field);
+  if (cached) return cached;
+
+  const fields = field.item?.fields || {};
+  const itemSchema: FormSchema = {
+    id: `${schema.id}.${fieldId}`,
+    meta: { title: field.label },
+    fields,
+    layout: field.item?.layout || [
+      { kind: 'stack', children: Object.keys(fields).map((id) => ({ kind: 'field' as const, fieldId: id })) },
+    ],
+    hiddenFields: schema.hiddenFields,
+  };
+  itemSchemaCache.set(field, itemSchema);
+  return itemSchema;
+};
+
+export const getItemLimits = (field: FieldDefinition): { minItems: number; maxItems?: number } => ({
+  minItems: field.rules?.minItems?.value ?? (field.rules?.required ? 1 : 0),
+  maxItems: field.rules?.maxItems?.value,
+});
+
+const buildArraySchema = (
+  schema: FormSchema,
+  fieldId: string,
+  rows: unknown,
+  renderers: RendererRegistry,
+  t: Translate
+): z.ZodTypeAny => {
+  const rules = schema.fields[fieldId].rules;
+  const itemSchema = getItemSchema(schema, fieldId);
+  const { minItems, maxItems } = getItemLimits(schema.fields[fieldId]);
+  const label = t(schema.fields[fieldId].label);
+  const minMsg = rules?.minItems
+    ? t(rules.minItems.message, { label, min: minItems })
+    : getRequiredMessage(rules?.required, t, { label });
+  const maxMsg = t(rules?.maxItems?.message ?? 'validation.maxItems', { label, max: maxItems });
+
+  // Row visibility depends on each row's own values, so when values are known
+  // every row gets its own object schema.
+  let rowsSchema: z.ZodType<unknown[]>;
+  if (Array.isArray(rows)) {
+    const rowSchemas = rows.map((row): z.ZodTypeAny => buildZodSchema(itemSchema, row, renderers, t));
+    rowsSchema = z.tuple(rowSchemas as [z.ZodTypeAny, ...z.ZodTypeAny[]]);
+  } else {
+    rowsSchema = z.array(buildZodSchema(itemSchema, undefined, renderers, t));
+  }
+
+  return rowsSchema
+    .refine((items) => items.length >= minItems, minMsg)
+    .refine((items) => maxItems === undefined || items.length <= maxItems, maxMsg);
+};
+
+/** `drivers[0].name` → `drivers.0.name`, the dotted form react-hook-form uses */
+const toFieldPath = (path: string): string => path.replace(/\[(\w+)\]/g, '.$1').replace(/^\./, '');
+
+/** Maps each field to the fields whose `rules.validate` depends on it */
+const getDependentFields = (schema: FormSchema): Record<string, string[]> => {
+  const dependents: Record<string, string[]> = {};
+  Object.entries(schema.fields).forEach(([fieldId, fieldDef]) => {
+    fieldDef.rules?.deps?.forEach((dep) => {
+      (dependents[dep] ||= []).push(fieldId);
+    });
+  });
+  return dependents;
+};
+
+interface ComputedScope {
+  /** Computed fields that can run, each after the computed fields it reads */
+  order: string[];
+  /** Why a computed field can't run: a bad expression or a dependency cycle */
+  issues: Record<string, string>;
+}
+
+const computedScopeCache = new WeakMap<Record<string, FieldDefinition>, ComputedScope>();
+
+/**
+ * The computed fields of one scope (the form, or an array row), checked once per
+ * `fields` object. Fields with a bad expression or in a cycle are left out of
+ * `order` and reported in `issues`, so a schema mistake never throws from render.
+ */
+const getComputedScope = (fields: Record<string, FieldDefinition>): ComputedScope => {
+  const cached = computedScopeCache.get(fields);
+  if (cached) return cached;
+
+  const graph: Record<string, string[]> = {};
+  const issues: Record<string, string> = {};
+  Object.entries(fields).forEach(([fieldId, fieldDef]) => {
+    const computed = fieldDef.computed;
+    if (!computed) return;
+    try {
+      graph[fieldId] = computed.compute ? computed.deps ?? [] : computed.expression ? compileExpression(computed.expression).deps : [];
+    } catch (error) {
+      issues[fieldId] = (error as Error).message;
+    }
+  });
+
+  let result = sortDependencies(graph);
+  while (result.cycle) {
+    const message = `Computed fields depend on each other in a cycle: ${result.cycle.join(' → ')}`;
+    result.cycle.forEach((fieldId) => {
+      issues[fieldId] = message;
+      delete graph[fieldId];
+    });
+    result = sortDependencies(graph);
+  }
+
+  const scope = { order: result.order, issues };
+  computedScopeCache.set(fields, scope);
+  return scope;
+};
+
+/** Why a computed field of `fields` can't be computed, if it can't */
+export const getComputedIssue = (fields: Record<string, FieldDefinition>, fieldId: string): string | undefined =>
+  getComputedScope(fields).issues[fieldId];
+
+/** Returns `values` with every computed field of the scope evaluated, in dependency order */
+const applyComputedValues = (fields: Record<string, FieldDefinition>, values: FieldValues): FieldValues => {
+  const next = { ...values };
+  getComputedScope(fields).order.forEach((fieldId) => {
+    const { compute, expression } = fields[fieldId].computed!;
+    const value = compute ? compute(next) : expression ? compileExpression(expression).evaluate(next) : undefined;
+    next[fieldId] = value ?? '';
+  });
+  return next;
+};
+
+const isSameValue = (a: unknown, b: unknown): boolean =>
+  Object.is(a, b) || (typeof a === 'object' && typeof b === 'object' && JSON.stringify(a) === JSON.stringify(b));
+
+type EffectForm = Pick<UseFormReturn<FieldValues>, 'watch' | 'setValue' | 'getValues' | 'getFieldState'>;
+
+/**
+ * Applies `schema.effects` as values change. Changes made by an effect go through
+ * setValue, which reports back here synchronously; they join the queue of the
+ * change that started it all, and every effect runs at most once per queue.
+ */
+const subscribeEffects = (schema: FormSchema, defaultValues: FieldValues, form: EffectForm) => {
+  const effects = schema.effects;
+  if (!effects?.length) return undefined;
+  const { watch, setValue, getValues, getFieldState } = form;
+  let queue: string[] | null = null;
+
+  const applyEffect = (effect: FieldEffect) => {
+    const apply = (target: string, value: unknown) => {
+      if (isSameValue(getValues(target), value)) return;
+      setValue(target, value, { shouldDirty: true, shouldValidate: getFieldState(target).invalid });
+    };
+    Object.entries(effect.set ?? {}).forEach(([target, value]) => apply(target, value));
+    effect.clear?.forEach((target) => apply(target, defaultValues[target]));
+  };
+
+  return watch((_values, { name }) => {
+    if (!name) return;
+    if (queue) {
+      queue.push(name);
+      return;
+    }
+
+    queue = [name];
+    const ran = new Set<FieldEffect>();
+    try {
+      while (queue.length) {
+        const changed = queue.shift()!;
+        effects.forEach((effect) => {
+          if (ran.has(effect) || !getEffectTriggers(effect).includes(changed)) return;
+          if (effect.if && !evaluateVisibility(effect.if, getValues())) return;
+          ran.add(effect);
+          applyEffect(effect);
+        });
+      }
+    } finally {
+      queue = null;
+    }
+  });
+};
+
+const hasComputedFields = (fields: Record<string, FieldDefinition>): boolean =>
+  Object.values(fields).some((fieldDef) => fieldDef.computed || (fieldDef.item && hasComputedFields(fieldDef.item.fields)));
+
+/**
+ * Keeps computed values up to date: once right away, then whenever a value
+ * changes. Setting a computed value reports back here synchronously; that pass
+ * is skipped, since the running one already sets every computed field in order.
+ */
+const subscribeComputedValues = (schema: FormSchema, submitCount: number, form: EffectForm) => {
+  if (!hasComputedFields(schema.fields)) return undefined;
+  const { watch, setValue, getValues, getFieldState } = form;
+  let updating = false;
+
+  const updateScope = (fields: Record<string, FieldDefinition>, values: FieldValues, prefix: string) => {
+    const computed = applyComputedValues(fields, values);
+    Object.entries(fields).forEach(([fieldId, fieldDef]) => {
+      const path = `${prefix}${fieldId}`;
+      if (fieldDef.computed && !isSameValue(computed[fieldId], values[fieldId])) {
+        setValue(path, computed[fieldId], { shouldValidate: !!getFieldState(path).error || submitCount > 0 });
+      }
+      if (fieldDef.item && Array.isArray(values[fieldId])) {
+        values[fieldId].forEach((row: FieldValues | undefined, index: number) =>
+          updateScope(fieldDef.item!.fields, row || {}, `${path}.${index}.`)
+        );
+      }
+    });
+  };
+  const update = () => {
+    if (updating) return;
+    updating = true;
+    try {
+      updateScope(schema.fields, getValues(), '');
+    } finally {
+      updating = false;
+    }
+  };
+
+  update();
+  return watch(update);
+};
+
+interface AsyncCheck {
+  value: unknown;
+  status: 'pending' | 'valid' | 'invalid';
+  /** Translated when the result is reported, so it follows locale changes */
+  message?: LocalizedText;
+  /** Resolves once the check has a result or was cancelled */
+  done: Promise<void>;
+  /** Skips the rest of the debounce delay */
+  flush: () => void;
+  cancel: () => void;
+}
+
+/**
+ * Tracks the `asyncValidate` checks of one form. A check belongs to the value it
+ * was started for: starting another one for the field aborts it, and its result
+ * is only reported while the field still holds that value.
+ */
+const createAsyncValidation = (onPendingChange: (fieldId: string, pending: boolean) => void) => {
+  const checks: Record<string, AsyncCheck> = {};
+
+  const start = (
+    fieldId: string,
+    rule: AsyncValidationRule,
+    value: unknown,
+    formValues: FieldValues,
+    canRun: () => boolean = () => true
+  ): AsyncCheck => {
+    checks[fieldId]?.cancel();
+
+    const controller = new AbortController();
+    let started = false;
+    let finish = () => {};
+    const done = new Promise<void>((resolve) => {
+      finish = resolve;
+    });
+    const run = async () => {
+      clearTimeout(timer);
+      if (started || controller.signal.aborted) return;
+      started = true;
+      try {
+        const result = canRun() ? await rule.validate(value, formValues, controller.signal) : true;
+        if (controller.signal.aborted) return;
+        check.status = result === true ? 'valid' : 'invalid';
+        if (result !== true) check.message = typeof result === 'string' ? result : rule.message || 'validation.invalid';
+      } catch {
+        if (!controller.signal.aborted) check.status = 'valid';
+      }
+      if (checks[fieldId] === check) onPendingChange(fieldId, false);
+      finish();
+    };
+    const timer = setTimeout(run, rule.debounceMs ?? 400);
+    const check: AsyncCheck = {
+      value,
+      status: 'pending',
+      done,
+      flush: run,
+      cancel: () => {
+        clearTimeout(timer);
+        controller.abort();
+        finish();
+      },
+    };
+
+    checks[fieldId] = check;
+    onPendingChange(fieldId, true);
+    return check;
+  };
+
+  const cancel = (fieldId: string) => {
+    if (!checks[fieldId]) return;
+    checks[fieldId].cancel();
+    delete checks[fieldId];
+    onPendingChange(fieldId, false);
+  };
+
+  /** Result for `value`, if the latest check was for it */
+  const getCheck = (fieldId: string, value: unknown): AsyncCheck | undefined =>
+    checks[fieldId] && Object.is(checks[fieldId].value, value) ? checks[fieldId] : undefined;
+
+  /** Waits for every listed field's check of its current value, starting missing ones right away */
+  const settle = (schema: FormSchema, fieldIds: string[], values: FieldValues) =>
+    Promise.all(
+      fieldIds.map((fieldId) => {
+        const rule = schema.fields[fieldId]?.rules?.asyncValidate;
+        if (!rule || isEmptyValue(values[fieldId])) return undefined;
+        const check = getCheck(fieldId, values[fieldId]) || start(fieldId, rule, values[fieldId], values);
+        check.flush();
+        return check.done;
+      })
+    );
+
+  return { start, cancel, getCheck, settle };
+};
+
+/**
+ * Date values are kept as `YYYY-MM-DD` strings, exactly as the native date input
+ * reports them, so bounds can be compared as plain strings.
+ */
+export const toDateInputValue = (date: Date | string | undefined): string | undefined => {
+  if (!date) return undefined;
+  if (typeof date === 'string') return date.slice(0, 10);
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * NumberField is a text input, so an empty one reports '' (or null after a reset);
+ * that counts as no value rather than 0. Bounds from `rules`, or the `props` the
+ * browser used to enforce, only apply to a number that was entered.
+ */
+const buildNumberSchema = (fieldDef: FieldDefinition, t: Translate): z.ZodTypeAny => {
+  const { rules, props } = fieldDef;
+  const label = t(fieldDef.label);
+  const min = rules?.min ?? (props?.min !== undefined ? { value: props.min, message: 'validation.min' } : undefined);
+  const max = rules?.max ?? (props?.max !== undefined ? { value: props.max, message: 'validation.max' } : undefined);
+
+  let numberSchema = z.coerce.number({ error: t('validation.number', { label }) });
+  if (min) numberSchema = numberSchema.min(min.value, t(min.message, { label, min: min.value }));
+  if (max) numberSchema = numberSchema.max(max.value, t(max.message, { label, max: max.value }));
+
+  const valueSchema = z.preprocess((value) => (isEmptyValue(value) ? undefined : value), numberSchema.optional());
+  return rules?.required
+    ? valueSchema.refine((value) => value !== undefined, getRequiredMessage(rules.required, t, { label }))
+    : valueSchema;
+};
+
+const buildDateSchema = (fieldDef: FieldDefinition, t: Translate): z.ZodString => {
+  const minDate = toDateInputValue(fieldDef.props?.minDate);
+  const maxDate = toDateInputValue(fieldDef.props?.maxDate);
+  const label = t(fieldDef.label);
+  const format = (date: string | undefined) => date && formatDate(date, t.locale);
+
+  return z.string()
+    .refine((val) => !val || !minDate || val >= minDate, t('validation.minDate', { label, date: format(minDate) }))
+    .refine((val) => !val || !maxDate || val <= maxDate, t('validation.maxDate', { label, date: format(maxDate) }));
+};
+
+export const formatFileSize = (bytes: number): string => {
+  if (bytes >= 1024 * 1024) return `${Math.round((bytes / (1024 * 1024)) * 10) / 10}MB`;
+  if (bytes >= 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${bytes}B`;
+};
+
+/** Mirrors the browser's `accept` matching: extensions, exact MIME types and `type/*` wildcards */
+const matchesAccept = (file: File, accept: string): boolean => {
+  const fileName = file.name.toLowerCase();
+  const mimeType = file.type.toLowerCase();
+
+  return accept.split(',').map((entry) => entry.trim().toLowerCase()).filter(Boolean).some((entry) => {
+    if (entry.startsWith('.')) return fileName.endsWith(entry);
+    if (entry.endsWith('/*')) return mimeType.startsWith(entry.slice(0, -1));
+    return mimeType === entry;
+  });
+};
+
+const buildFileSchema = (fieldDef: FieldDefinition, t: Translate): z.ZodTypeAny => {
+  const { accept, maxSize } = fieldDef.props || {};
+  const required = fieldDef.rules?.required;
+  const label = t(fieldDef.label);
+
+  const fileSchema = z.instanceof(File, { message: getRequiredMessage(required, t, { label }) })
+    .refine((file) => !maxSize || file.size <= maxSize, t('validation.fileSize', { label, size: maxSize ? formatFileSize(maxSize) : '' }))
+    .refine((file) => !accept || matchesAccept(file, accept), t('validation.fileType', { label, accept }));
+
+  return required ? fileSchema : fileSchema.nullable().optional();
+};
+
+export const getDefaultValues = (schema: FormSchema, renderers: RendererRegistry = {}): FieldValues => {
+  const defaults: FieldValues = {};
+  Object.entries(schema.fields).forEach(([fieldId, fieldDef]) => {
+    if (fieldDef.defaultValue !== undefined) {
+      defaults[fieldId] = fieldDef.defaultValue;
+    } else if (renderers[fieldDef.renderer]) {
+      defaults[fieldId] = renderers[fieldDef.renderer].defaultValue ?? '';
+    } else if (fieldDef.renderer === 'array') {
+      const itemSchema = getItemSchema(schema, fieldId);
+      defaults[fieldId] = Array.from({ length: getItemLimits(fieldDef).minItems }, () =>
+        getDefaultValues(itemSchema, renderers)
+      );
+    } else {
+      switch (fieldDef.renderer) {
+        case 'checkbox':
+        case 'switch':
+          defaults[fieldId] = false;
+          break;
+        case 'multiselect':
+          defaults[fieldId] = [];
+          break;
+        case 'file':
+          defaults[fieldId] = null;
+          break;
+        default:
+          defaults[fieldId] = '';
+      }
+    }
+  });
+  // Computed from the other defaults, so an untouched form doesn't count as dirty
+  return applyComputedValues(schema.fields, defaults);
+};
+
+const layoutConditionCache = new WeakMap<FormSchema, Record<string, VisibilityRule[]>>();
+
+/** Collects, per field, the `visibleWhen` rules of the layout nodes that contain it */
+const getLayoutConditions = (schema: FormSchema): Record<string, VisibilityRule[]> => {
+  const cached = layoutConditionCache.get(schema);
+  if (cached) return cached;
+
+  const conditions: Record<string, VisibilityRule[]> = {};
+  const walk = (nodes: LayoutNode[], inherited: VisibilityRule[]) => {
+    nodes.forEach((node) => {
+      const rules = node.visibleWhen ? [...inherited, node.visibleWhen] : inherited;
+      if (node.kind === 'field' && node.fieldId && !conditions[node.fieldId]) {
+        conditions[node.fieldId] = rules;
+      }
+      if (node.children) walk(node.children, rules);
+    });
+  };
+  walk(schema.layout, []);
+
+  layoutConditionCache.set(schema, conditions);
+  return conditions;
+};
+
+/** A field is visible when its own conditions and those of every enclosing layout node pass */
+const isFieldVisibleIn = (schema: FormSchema, fieldId: string, formValues: FieldValues): boolean => {
+  const field = schema.fields[fieldId];
+  if (!field) return false;
+  if (field.visibleWhen && !evaluateVisibility(field.visibleWhen, formValues)) return false;
+  return (getLayoutConditions(schema)[fieldId] || []).every((rule) => evaluateVisibility(rule, formValues));
+};
+
+const isFieldDisabledIn = (schema: FormSchema, fieldId: string, formValues: FieldValues): boolean =>
+  !!schema.effects?.some((effect) => {
+    const holds = !effect.if || evaluateVisibility(effect.if, formValues);
+    return (effect.disable?.includes(fieldId) && holds) || (effect.enable?.includes(fieldId) && !holds);
+  });
+
+const getEffectTriggers = (effect: FieldEffect): string[] =>
+  Array.isArray(effect.on) ? effect.on : effect.on ? [effect.on] : [];
+
+const hasVisibleField = (schema: FormSchema, node: LayoutNode, formValues: FieldValues): boolean => {
+  if (node.visibleWhen && !evaluateVisibility(node.visibleWhen, formValues)) return false;
+  if (node.kind === 'field') return !!node.fieldId && isFieldVisibleIn(schema, node.fieldId, formValues);
+  return (node.children || []).some((child) => hasVisibleField(schema, child, formValues));
+};
+
+const isLayoutVisibleIn = (schema: FormSchema, node: LayoutNode, formValues: FieldValues): boolean => {
+  if (node.visibleWhen && !evaluateVisibility(node.visibleWhen, formValues)) return false;
+  if (node.kind === 'field') return !!node.fieldId && isFieldVisibleIn(schema, node.fieldId, formValues);
+  if (node.hideWhenEmpty) return hasVisibleField(schema, node, formValues);
+  return true;
+};
+
+export const collectFieldIds = (nodes: LayoutNode[]): string[] =>
+  nodes.flatMap((node) =>
+    node.kind === 'field' && node.fieldId ? [node.fieldId] : collectFieldIds(node.children || [])
+  );
+
+export const DEFAULT_BREAKPOINTS: BreakpointWidths = { sm: 640, md: 768, lg: 1024, xl: 1280 };
+
+const BREAKPOINT_ORDER: Breakpoint[] = ['base', 'sm', 'md', 'lg', 'xl'];
+
+/** The value for `breakpoint`: its own, or the nearest smaller breakpoint's */
+export const resolveResponsive = <T>(value: Responsive<T> | undefined, breakpoint: Breakpoint): T | undefined => {
+  if (value === null || typeof value !== 'object') return value;
+  const byBreakpoint = value as Partial<Record<Breakpoint, T>>;
+  const match = BREAKPOINT_ORDER.slice(0, BREAKPOINT_ORDER.indexOf(breakpoint) + 1)
+    .reverse()
+    .find((name) => byBreakpoint[name] !== undefined);
+  return match && byBreakpoint[match];
+};
+
+/** Column count for a grid at `breakpoint`, and each child's span clamped to it */
+export const getGridLayout = (node: LayoutNode, breakpoint: Breakpoint) => {
+  const declared = node.cols ?? 2;
+  // A plain column count is for wide screens; below `md` the grid stacks
+  const byBreakpoint = typeof declared === 'number' ? { base: 1, md: declared } : declared;
+  const cols = Math.max(resolveResponsive(byBreakpoint, breakpoint) ?? 1, 1);
+  const spans = (node.children || []).map((child) => Math.min(Math.max(resolveResponsive(child.colSpan, breakpoint) ?? 1, 1), cols));
+  return { cols, spans };
+};
+
+/** Tracks which breakpoint the viewport is in; `base` when rendering on the server */
+const useBreakpoint = (widths: Partial<BreakpointWidths> | undefined): Breakpoint => {
+  const { sm, md, lg, xl } = { ...DEFAULT_BREAKPOINTS, ...widths };
+  const store = useMemo(() => {
+    const queries =
+      typeof window === 'undefined' || !window.matchMedia
+        ? []
+        : ([['sm', sm], ['md', md], ['lg', lg], ['xl', xl]] as const).map(
+            ([name, width]) => [name, window.matchMedia(`(min-width: ${width}px)`)] as const
+          );
+    return {
+      subscribe: (onChange: () => void) => {
+        queries.forEach(([, query]) => query.addEventListener('change', onChange));
+        return () => queries.forEach(([, query]) => query.removeEventListener('change', onChange));
+      },
+      getSnapshot: () => queries.reduce<Breakpoint>((current, [name, query]) => (query.matches ? name : current), 'base'),
+    };
+  }, [sm, md, lg, xl]);
+  return useSyncExternalStore(store.subscribe, store.getSnapshot, () => 'base');
+};
+
+export interface WizardStep {
+  /** Position in `schema.layout` of the node that starts the step */
+  index: number;
+  title?: LocalizedText;
+  nodes: LayoutNode[];
+}
+
+/**
+ * Splits the top-level layout into wizard steps. Every `step` or `section` node
+ * starts a new step; any other top-level node joins the step before it.
+ */
+const getWizardSteps = (schema: FormSchema): WizardStep[] => {
+  const steps: WizardStep[] = [];
+  schema.layout.forEach((node, index) => {
+    const startsStep = node.kind === 'step' || node.kind === 'section';
+    if (startsStep || steps.length === 0) {
+      steps.push({ index, title: node.title, nodes: [node] });
+    } else {
+      steps[steps.length - 1].nodes.push(node);
+    }
+  });
+  return steps;
+};
+
+const evaluateVisibility = (rule: VisibilityRule, formValues: FieldValues): boolean => {
+  if (Array.isArray(rule)) return rule.every((child) => evaluateVisibility(child, formValues));
+  if ('all' in rule) return rule.all.every((child) => evaluateVisibility(child, formValues));
+  if ('any' in rule) return rule.any.some((child) => evaluateVisibility(child, formValues));
+  if ('not' in rule) return !evaluateVisibility(rule.not, formValues);
+  return evaluateSingleCondition(rule, formValues);
+};
+
+export const isEmptyValue = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.length === 0);
+
+/**
+ * Orders two values for gt/gte/lt/lte. Inputs report numbers as strings, so
+ * numeric-looking values compare as numbers; anything else (e.g. YYYY-MM-DD
+ * dates) compares as strings. Empty values never compare.
+ */
+const compareValues = (a: unknown, b: unknown): number | null => {
+  if (isEmptyValue(a) || isEmptyValue(b)) return null;
+  const numA = Number(a);
+  const numB = Number(b);
+  if (Number.isFinite(numA) && Number.isFinite(numB)) return numA - numB;
+  return String(a).localeCompare(String(b));
+};
+
+const evaluateSingleCondition = (condition: VisibilityCondition, formValues: FieldValues): boolean => {
+  const { field, op, value } = condition;
+  const fieldValue = formValues[field];
+  const comparison = ['gt', 'gte', 'lt', 'lte'].includes(op) ? compareValues(fieldValue, value) : null;
+
+  switch (op) {
+    case 'equals':
+      return fieldValue === value;
+    case 'notEquals':
+      return fieldValue !== value;
+    case 'in':
+      return Array.isArray(value) && value.includes(fieldValue);
+    case 'gt':
+      return comparison !== null && comparison > 0;
+    case 'gte':
+      return comparison !== null && comparison >= 0;
+    case 'lt':
+      return comparison !== null && comparison < 0;
+    case 'lte':
+      return comparison !== null && comparison <= 0;
+    case 'contains':
+      if (Array.isArray(fieldValue)) return fieldValue.includes(value);
+      return typeof fieldValue === 'string' && fieldValue.includes(String(value));
+    case 'isEmpty':
+      return isEmptyValue(fieldValue);
+    case 'isNotEmpty':
+      return !isEmptyValue(fieldValue);
+    case 'matches': {
+      if (isEmptyValue(fieldValue)) return false;
+      const regex = value instanceof RegExp ? value : new RegExp(String(value), condition.flags);
+      return regex.test(String(fieldValue));
+    }
+    default:
+      return true;
+  }
+};
+
+// ================================================================
+// OPTIONS
+// ================================================================
+
+/** Option labels come back translated; the values stay as given */
+const normalizeOptions = (options: SelectOption[], t: Translate): { label: string; value: string }[] =>
+  options.map((opt) =>
+    typeof opt === 'object' ? { label: t(opt.label), value: String(opt.value) } : { label: t(String(opt)), value: String(opt) }
+  );
+
+/** Loaded options per source, keyed by the parent value they were loaded for */
+export type LoadedOptionsCache = WeakMap<OptionSource, Map<string, SelectOption[]>>;
+
+const getLoadedOptions = (loadedOptions: LoadedOptionsCache, source: OptionSource) => {
+  let cache = loadedOptions.get(source);
+  if (!cache) {
+    cache = new Map();
+    loadedOptions.set(source, cache);
+  }
+  return cache;
+};
+
+const NO_OPTIONS: SelectOption[] = [];
+
+type OptionsStatus = 'idle' | 'loading' | 'ready' | 'error';
+
+/**
+ * Resolves a field's options from `props.data` or its `optionsFrom` source, and
+ * clears selections that are no longer among them once the parent changes. Only
+ * successful loads are cached; `retry` loads a failed parent value again, and a
+ * failed load leaves the selection alone.
+ */
+export const useFieldOptions = (fieldId: string) => {
+  const { schema, formValues, touchedFields, loadedOptions, setValue, t } = useFormContext();
+  const field = schema.fields[fieldId];
+  const source = field.optionsFrom;
+  const parentValue = source ? formValues[source.dependsOn] : undefined;
+  const parentKey = isEmptyValue(parentValue) ? '' : String(parentValue);
+  const [loaded, setLoaded] = useState<{ key: string; status: OptionsStatus; options: SelectOption[] }>({
+    key: '',
+    status: 'idle',
+    options: [],
+  });
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    if (!source?.load || !parentKey || getLoadedOptions(loadedOptions, source).has(parentKey)) return;
+    // Responses for a parent value the user has already moved away from are dropped
+    let cancelled = false;
+    source.load(parentValue).then(
+      (options) => {
+        getLoadedOptions(loadedOptions, source).set(parentKey, options);
+        if (!cancelled) setLoaded({ key: parentKey, status: 'ready', options });
+      },
+      () => {
+        if (!cancelled) setLoaded({ key: parentKey, status: 'error', options: [] });
+      }
+    );
+    return () => {
+      cancelled = true;
+    };
+  }, [source, loadedOptions, parentKey, parentValue, attempt]);
+
+  const retry = () => {
+    setLoaded({ key: parentKey, status: 'loading', options: [] });
+    setAttempt((current) => current + 1);
+  };
+
+  let status: OptionsStatus = 'ready';
+  let rawOptions: SelectOption[] = field.props?.data || NO_OPTIONS;
+  if (source) {
+    const cached = source.load && getLoadedOptions(loadedOptions, source).get(parentKey);
+    if (!parentKey) {
+      status = 'idle';
+      rawOptions = NO_OPTIONS;
+    } else if (cached) {
+      rawOptions = cached;
+    } else if (source.load) {
+      status = loaded.key === parentKey ? loaded.status : 'loading';
+      rawOptions = loaded.key === parentKey ? loaded.options : NO_OPTIONS;
+    } else {
+      rawOptions = source.map?.[parentKey] || NO_OPTIONS;
+    }
+  }
+  const options = useMemo(() => normalizeOptions(rawOptions, t), [rawOptions, t]);
+
+  // Selections are only checked against options that actually arrived: while a
+  // load is pending or after it failed, a picked or restored value is kept.
+  const value = formValues[fieldId];
+  const touched = touchedFields.has(fieldId);
+  const previousStatus = useRef(status);
+  useEffect(() => {
+    const wasLoading = previousStatus.current === 'loading';
+    previousStatus.current = status;
+    if (!source || status === 'loading' || status === 'error') return;
+
+    const current: string[] = Array.isArray(value) ? value : isEmptyValue(value) ? [] : [String(value)];
+    const kept = current.filter((item) => options.some((opt) => opt.value === String(item)));
+    if (kept.length !== current.length) {
+      setValue(fieldId, Array.isArray(value) ? kept : '', { shouldValidate: touched });
+    } else if (wasLoading && kept.length > 0) {
+      // A native select drops a value whose option didn't exist yet; re-apply it now that it does
+      setValue(fieldId, value);
+    }
+  }, [source, status, options, value, touched, fieldId, setValue]);
+
+  let emptyText: string | undefined;
+  if (source && status === 'idle') {
+    const parent = schema.fields[source.dependsOn];
+    const parentLabel = parent ? t(parent.label).toLocaleLowerCase(t.locale) : source.dependsOn;
+    emptyText = t(source.placeholder || 'options.selectParent', { field: parentLabel });
+  } else if (status === 'loading') {
+    emptyText = t('options.loading');
+  } else if (status === 'error') {
+    emptyText = t('options.error');
+  } else if (source && options.length === 0) {
+    emptyText = t(field.props?.emptyText || 'options.empty');
+  }
+
+  return { options, status, emptyText, retry };
+};
+
+const useDebouncedValue = <T,>(value: T, delay: number): T => {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timer);
+  }, [value, delay]);
+
+  return debounced;
+};
+
+type RemoteOptions = { options: SelectOption[]; pages: number; hasMore: boolean };
+
+/** Loaded pages per loader, keyed by the trimmed query and the loader's `cacheKey` */
+export type RemoteOptionsCache = WeakMap<OptionsLoader, Map<string, RemoteOptions>>;
+
+const getRemoteOptions = (optionsCache: RemoteOptionsCache, loader: OptionsLoader) => {
+  let cache = optionsCache.get(loader);
+  if (!cache) {
+    cache = new Map();
+    optionsCache.set(loader, cache);
+  }
+  return cache;
+};
+
+/**
+ * Runs `optionsLoader` for the debounced query while `enabled`, one page at a time.
+ * Returns null for fields without a loader.
+ */
+const useRemoteOptions = (fieldId: string, query: string, enabled: boolean) => {
+  const { schema, formValues, optionsCache, t } = useFormContext();
+  const field = schema.fields[fieldId];
+  const loader = field.optionsLoader;
+  // One string, so the query and the values the loader depends on settle together
+  const currentKey = JSON.stringify([query.trim(), loader?.cacheKey?.(formValues) ?? '']);
+  const key = useDebouncedValue(currentKey, field.props?.debounceMs ?? 300);
+  const [searchQuery] = JSON.parse(key) as [string, string];
+  const [wanted, setWanted] = useState({ key, pages: 1 });
+  const [request, setRequest] = useState<{ key: string; status: OptionsStatus; attempt: number }>({
+    key,
+    status: 'idle',
+    attempt: 0,
+  });
+  const pages = wanted.key === key ? wanted.pages : 1;
+  const attempt = request.key === key ? request.attempt : 0;
+  // Read at request time; other fields only refetch through the loader's `cacheKey`
+  const formValuesRef = useRef(formValues);
+  useEffect(() => {
+    formValuesRef.current = formValues;
+  });
+
+  useEffect(() => {
+    if (!loader || !enabled) return;
+    const cache = getRemoteOptions(optionsCache, loader);
+    const cached = cache.get(key);
+    if (cached && (cached.pages >= pages || !cached.hasMore)) return;
+
+    const controller = new AbortController();
+    const page = cached?.pages ?? 0;
+    setRequest({ key, status: 'loading', attempt });
+    loader(searchQuery, formValuesRef.current, { page, signal: controller.signal })
+      .then((response) => {
+        if (controller.signal.aborted) return;
+        const result = Array.isArray(response) ? { options: response } : response;
+        cache.set(key, {
+          options: [...(cached?.options ?? []), ...result.options],
+          pages: page + 1,
+          hasMore: !!result.hasMore,
+        });
+        setRequest({ key, status: 'ready', attempt });
+      })
+      .catch(() => {
+        if (!controller.signal.aborted) setRequest({ key, status: 'error', attempt });
+      });
+    return () => controller.abort();
+  }, [loader, optionsCache, enabled, key, searchQuery, pages, attempt]);
+
+  if (!loader) return null;
+
+  const cached = getRemoteOptions(optionsCache, loader).get(key);
+  const requestStatus = request.key === key ? request.status : 'idle';
+  let status: OptionsStatus = cached ? 'ready' : 'loading';
+  if (requestStatus === 'loading' || requestStatus === 'error') status = requestStatus;
+  if (currentKey !== key) status = 'loading';
+  const options = normalizeOptions(cached?.options ?? [], t);
+  const hasMore = !!cached?.hasMore;
+
+  let emptyText: string | undefined;
+  if (status === 'error') emptyText = t('options.error');
+  else if (options.length === 0 && status === 'loading') emptyText = t('options.loading');
+  else if (options.length === 0) emptyText = t(searchQuery ? 'options.noMatches' : field.props?.emptyText || 'options.empty');
+
+  return {
+    options,
+    status,
+    emptyText,
+    hasMore,
+    loadMore: () => {
+      if (hasMore && status === 'ready') setWanted({ key, pages: (cached?.pages ?? 0) + 1 });
+    },
+    retry: () => setRequest({ key, status: 'idle', attempt: attempt + 1 }),
+  };
+};
+
+/**
+ * Options for fields with a search box: `optionsLoader` fields search remotely,
+ * everything else filters its resolved options locally.
+ */
+export const useOptionSearch = (fieldId: string, query: string, enabled: boolean) => {
+  const { t } = useFormContext();
+  const local = useFieldOptions(fieldId);
+  const remote = useRemoteOptions(fieldId, query, enabled);
+  if (remote) return remote;
+
+  // Matches the translated labels the user actually sees
+  const term = query.trim().toLocaleLowerCase(t.locale);
+  const options = term
+    ? local.options.filter((opt) => opt.label.toLocaleLowerCase(t.locale).includes(term))
+    : local.options;
+  return {
+    ...local,
+    options,
+    emptyText: local.emptyText || (options.length === 0 ? t('options.noMatches') : undefined),
+    hasMore: false,
+    loadMore: () => {},
+  };
+};
+
+// ================================================================
+// FIELDS
+// ================================================================
+
+/**
+ * ARIA state for a built-in input: invalid and required flags, and a description
+ * pointing at the field's error message (`${inputId}-error`) and any hint.
+ */
+export const getFieldAria = (inputId: string, field: FieldDefinition, hasError: boolean, hintId?: string) => ({
+  'aria-invalid': hasError || undefined,
+  'aria-required': field.rules?.required ? true : undefined,
+  'aria-describedby': [hasError ? `${inputId}-error` : '', hintId ?? ''].filter(Boolean).join(' ') || undefined,
+});
+
+/** A field's own error message; array fields keep their count error on `root` when rows have errors too */
+export const getFieldError = (errors: FieldErrors, fieldId: string): string | undefined => {
+  const message = errors[fieldId]?.message ?? errors[fieldId]?.root?.message;
+  return typeof message === 'string' ? message : undefined;
+};
+
+/**
+ * Headless state for one field, read from the nearest DynamicFormProvider (or an
+ * array row inside it, where `fieldId` names a row field). The built-in field
+ * components render from it.
+ */
+export const useDynamicField = (fieldId: string) => {
+  const { schema, formValues, errors, touchedFields, pendingFields, namePrefix, register, setValue, getInputId, isFieldVisible, isFieldDisabled, t } =
+    useFormContext();
+  const field = schema.fields[fieldId];
+  const inputId = getInputId(fieldId);
+  const disabled = isFieldDisabled(fieldId);
+  const error = getFieldError(errors, fieldId);
+  const invalid = !!errors[fieldId];
+  const touched = touchedFields.has(fieldId);
+  const pending = pendingFields.has(fieldId);
+  const aria = getFieldAria(inputId, field, invalid);
+
+  return {
+    field,
+    /** Path React Hook Form knows the field by, e.g. `drivers.0.name` in a row */
+    name: `${namePrefix}${fieldId}`,
+    inputId,
+    label: t(field.label),
+    placeholder: t(field.placeholder),
+    required: !!field.rules?.required,
+    value: formValues[fieldId],
+    /** The translated error message */
+    error,
+    invalid,
+    touched,
+    /** An `asyncValidate` check is in flight */
+    pending,
+    isValid: touched && !invalid && !pending,
+    visible: isFieldVisible(fieldId),
+    disabled,
+    aria,
+    /** Props for a native input, select or textarea: registration, id, disabled state and ARIA */
+    getInputProps: (hintId?: string) => ({
+      id: inputId,
+      disabled,
+      ...getFieldAria(inputId, field, invalid, hintId),
+      ...register(fieldId),
+    }),
+    /** For controlled inputs: sets the value, marks the field dirty and touched, and validates it */
+    onChange: (value: unknown) => setValue(fieldId, value, { shouldValidate: true, shouldDirty: true, shouldTouch: true }),
+    t,
+  };
+};
+
+/**
+ * A field's options as the built-in selects see them: `props.data`, an
+ * `optionsFrom` source or a remote `optionsLoader`, filtered by `query`.
+ */
+export const useDynamicFieldOptions = (fieldId: string, query = '') => useOptionSearch(fieldId, query, true);
+
+/**
+ * Context for one row of an array field. Field lookups, values, errors and
+ * visibility are relative to the row; registration still targets the full path.
+ */
+const createRowContext = (parent: FormContextValue, fieldId: string, index: number): FormContextValue => {
+  const itemSchema = getItemSchema(parent.schema, fieldId);
+  const rowPath = `${fieldId}.${index}`;
+  const row = parent.formValues[fieldId]?.[index] || {};
+  const touchedTree = parent.touchedTree[fieldId]?.[index] || {};
+
+  return {
+    ...parent,
+    schema: itemSchema,
+    formValues: row,
+    // React Hook Form keeps an array's row errors as one error tree per index
+    errors: (parent.errors[fieldId] as FieldErrors[] | undefined)?.[index] || {},
+    touchedTree,
+    touchedFields: new Set(Object.keys(touchedTree)),
+    // Async checks only run for top-level fields
+    pendingFields: new Set(),
+    namePrefix: `${parent.namePrefix}${rowPath}.`,
+    isFieldVisible: (id) => isFieldVisibleIn(itemSchema, id, row),
+    // Rows have no effects of their own, but a disabled array disables its rows
+    isFieldDisabled: (id) => parent.isFieldDisabled(fieldId) || isFieldDisabledIn(itemSchema, id, row),
+    isLayoutVisible: (node) => isLayoutVisibleIn(itemSchema, node, row),
+    register: ((name: string, options?: object) => parent.register(`${rowPath}.${name}`, options)) as UseFormRegister<FieldValues>,
+    setValue: (name: string, value: unknown, options?: object) => parent.setValue(`${rowPath}.${name}`, value, options),
+    getInputId: (id) => parent.getInputId(`${fieldId}-${index}-${id}`),
+  };
+};
+
+/**
+ * Headless state for an array field. Each row's `form` goes to DynamicFormProvider,
+ * so useDynamicField inside it resolves the row's own fields.
+ */
+export const useDynamicArray = (fieldId: string) => {
+  const context = useFormContext();
+  const { schema, errors, control, namePrefix, getInputId, renderers, isFieldDisabled, t } = context;
+  const field = schema.fields[fieldId];
+  const { fields, append, remove, move } = useFieldArray({ control, name: `${namePrefix}${fieldId}` });
+  const itemSchema = getItemSchema(schema, fieldId);
+  const { minItems, maxItems } = getItemLimits(field);
+  // Count errors land on the array itself or, for registered field arrays, on `root`
+  const error = getFieldError(errors, fieldId);
+
+  return {
+    field,
+    inputId: getInputId(fieldId),
+    label: t(field.label),
+    itemTitle: t(field.props?.itemTitle || field.label),
+    itemSchema,
+    rows: fields.map((row, index) => ({ key: row.id, index, form: { context: createRowContext(context, fieldId, index) } })),
+    /** Adds a row with the item schema's defaults */
+    append: () => append(getDefaultValues(itemSchema, renderers)),
+    remove,
+    move,
+    canAdd: maxItems === undefined || fields.length < maxItems,
+    canRemove: fields.length > minItems,
+    error,
+    disabled: isFieldDisabled(fieldId),
+    t,
+  };
+};
+
+// ================================================================
+// FORM
+// ================================================================
+
+export interface ErrorSummaryItem {
+  /** Id of the field's input (see `getInputId`) */
+  inputId: string;
+  /** Top-level field the error belongs to, for finding its wizard step */
+  fieldId: string;
+  label: string;
+  message: string;
+}
+
+/**
+ * Errors in layout order. Array fields list their own (count) error, then each
+ * row's errors, labelled with the row ("Driver 2: Name").
+ */
+const collectErrorSummary = (
+  schema: FormSchema,
+  errors: FormContextValue['errors'],
+  t: Translate,
+  idPrefix = '',
+  rowLabel: (label: string) => string = (label) => label
+): ErrorSummaryItem[] =>
+  collectFieldIds(schema.layout).flatMap((fieldId) => {
+    const field = schema.fields[fieldId];
+    const error = errors[fieldId];
+    if (!field || !error) return [];
+    const inputId = `${idPrefix}${fieldId}`;
+    const message = getFieldError(errors, fieldId);
+    const own = message ? [{ inputId, fieldId, label: rowLabel(t(field.label)), message }] : [];
+    if (!field.item || !Array.isArray(error)) return own;
+
+    const itemSchema = getItemSchema(schema, fieldId);
+    const itemTitle = t(field.props?.itemTitle || field.label);
+    const rows = error.flatMap((rowErrors, index) =>
+      collectErrorSummary(itemSchema, rowErrors || {}, t, `${inputId}-${index}-`, (label) =>
+        rowLabel(t('errorSummary.rowField', { item: itemTitle, number: index + 1, field: label }))
+      ).map((item) => ({ ...item, fieldId }))
+    );
+    return [...own, ...rows];
+  });
+
+const FOCUSABLE = 'input:not([disabled]), select:not([disabled]), textarea:not([disabled]), button:not([disabled]), [tabindex]';
+
+/**
+ * Focuses a field's input, or the first control inside a group (radios, arrays).
+ * The field may only appear once a wizard step or collapsed section opens, so
+ * it retries for a few frames.
+ */
+const focusField = (root: HTMLElement | null, inputId: string, attempts = 3) => {
+  // An attribute selector needs no CSS.escape, which jsdom and older engines lack
+  const element = root?.querySelector<HTMLElement>(`[id="${inputId.replace(/["\\]/g, '\\$&')}"]`);
+  const target = element?.matches(FOCUSABLE) ? element : element?.querySelector<HTMLElement>(FOCUSABLE);
+  if (target && !target.closest('[hidden]')) target.focus();
+  else if (attempts > 0) requestAnimationFrame(() => focusField(root, inputId, attempts - 1));
+};
+
+export interface FormLocale {
+  locale?: string;
+  messages?: FormMessages;
+}
+
+export const FormLocaleContext = createContext<FormLocale>({});
+
+/** Resolves the form's locale from its props and the nearest FormLocaleProvider */
+const useTranslator = (locale: string | undefined, messages: FormMessages | undefined): Translate => {
+  const inherited = useContext(FormLocaleContext);
+  const resolvedLocale = locale || inherited.locale || DEFAULT_LOCALE;
+  const inheritedMessages = inherited.messages;
+  return useMemo(() => {
+    const merged: FormMessages = { ...inheritedMessages };
+    Object.entries(messages ?? {}).forEach(([entry, catalog]) => {
+      merged[entry] = { ...merged[entry], ...catalog };
+    });
+    return createTranslator(resolvedLocale, merged);
+  }, [resolvedLocale, inheritedMessages, messages]);
+};
+
+/**
+ * - idle: nothing submitted yet, or the form was reset
+ * - submitting: validation passed and `onSubmit` is pending
+ * - success / error: how the last `onSubmit` ended
+ */
+export type SubmitStatus = 'idle' | 'submitting' | 'success' | 'error';
+
+/**
+ * Controller exposed through `ref`. Values passed to `reset` are merged over the
+ * schema defaults, and become the baseline `isDirty` compares against.
+ */
+export interface DynamicFormHandle<TValues extends FieldValues = FieldValues> {
+  reset: (values?: Partial<TValues>) => void;
+  /** Marks the fields dirty; `validate` also shows their errors right away */
+  setValues: (values: Partial<TValues>, options?: { validate?: boolean }) => void;
+  /** Current values, including fields that are hidden and would be left out on submit */
+  getValues: () => TValues;
+  /** Validates the given fields, or the whole form (waiting for async checks) */
+  validate: (fields?: string[]) => Promise<boolean>;
+  /** Same as pressing the submit button; in wizard mode it validates every step */
+  submit: () => Promise<void>;
+  /** Shows messages on fields until they next change, like a SubmitResult from `onSubmit` */
+  setErrors: (errors: ServerFieldErrors, formError?: string) => void;
+  isDirty: () => boolean;
+}
+
+/**
+ * Where drafts are kept. `localStorage` fits as is; async backends
+ * (IndexedDB, a server) can return promises.
+ */
+export interface DraftStorage {
+  getItem: (key: string) => string | null | Promise<string | null>;
+  setItem: (key: string, value: string) => void | Promise<void>;
+  removeItem: (key: string) => void | Promise<void>;
+}
+
+export interface SavedDraft {
+  savedAt: string;
+  values: Record<string, unknown>;
+}
+
+// Storage can be unavailable (private mode, quota, SSR); drafts are then simply not kept.
+const localDraftStorage: DraftStorage = {
+  getItem: (key) => {
+    try {
+      return localStorage.getItem(key);
+    } catch {
+      return null;
+    }
+  },
+  setItem: (key, value) => {
+    try {
+      localStorage.setItem(key, value);
+    } catch {
+      // See above
+    }
+  },
+  removeItem: (key) => {
+    try {
+      localStorage.removeItem(key);
+    } catch {
+      // See above
+    }
+  },
+};
+
+const draftStorageKey = (schema: FormSchema) => `dynamic-form:${schema.id}:v${schema.version ?? 1}:draft`;
+
+const isSensitiveField = (field: FieldDefinition) =>
+  !!field.sensitive || field.renderer === 'file' || field.inputType === 'password';
+
+/** Copies the values that may be stored, descending into array rows */
+const toDraftValues = (fields: Record<string, FieldDefinition>, values: Record<string, unknown>): Record<string, unknown> => {
+  const draft: Record<string, unknown> = {};
+  Object.entries(fields).forEach(([fieldId, field]) => {
+    if (isSensitiveField(field) || field.computed || values[fieldId] === undefined) return;
+    const value = values[fieldId];
+    draft[fieldId] = field.item && Array.isArray(value)
+      ? value.map((row) => toDraftValues(field.item!.fields, row || {}))
+      : value;
+  });
+  return draft;
+};
+
+const parseDraft = (raw: string | null): SavedDraft | null => {
+  if (!raw) return null;
+  try {
+    const draft = JSON.parse(raw);
+    return draft && typeof draft.values === 'object' ? draft : null;
+  } catch {
+    return null;
+  }
+};
+
+/**
+ * Draft persistence for `schema.saveDraft`. Writes are debounced and held back
+ * until a stored draft has been restored or discarded, so typing before
+ * answering the prompt can't overwrite it.
+ */
+const useDraft = (
+  schema: FormSchema,
+  storage: DraftStorage,
+  watch: UseFormWatch<FieldValues>,
+  restoreValues: (values: Record<string, unknown>) => void
+) => {
+  const enabled = !!schema.saveDraft;
+  const debounceMs = (typeof schema.saveDraft === 'object' && schema.saveDraft.debounceMs) || 1000;
+  const key = draftStorageKey(schema);
+  const [storedDraft, setStoredDraft] = useState<SavedDraft | null>(null);
+  const paused = useRef(true);
+  const timer = useRef<ReturnType<typeof setTimeout> | undefined>(undefined);
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    Promise.resolve(storage.getItem(key))
+      .then((raw) => {
+        if (cancelled) return;
+        const draft = parseDraft(raw);
+        if (draft) setStoredDraft(draft);
+        else paused.current = false;
+      })
+      .catch(() => {
+        paused.current = false;
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, storage, key]);
+
+  useEffect(() => {
+    if (!enabled) return;
+    const subscription = watch((values, { name }) => {
+      // Programmatic resets report no field name and aren't user edits
+      if (!name || paused.current) return;
+      clearTimeout(timer.current);
+      timer.current = setTimeout(() => {
+        const draft: SavedDraft = { savedAt: new Date().toISOString(), values: toDraftValues(schema.fields, values) };
+        Promise.resolve(storage.setItem(key, JSON.stringify(draft))).catch(() => {});
+      }, debounceMs);
+    });
+    return () => {
+      clearTimeout(timer.current);
+      subscription.unsubscribe();
+    };
+  }, [enabled, storage, key, watch, schema, debounceMs]);
+
+  const clear = () => {
+    clearTimeout(timer.current);
+    if (enabled) Promise.resolve(storage.removeItem(key)).catch(() => {});
+  };
+
+  return {
+    storedDraft,
+    restore: () => {
+      if (storedDraft) restoreValues(storedDraft.values);
+      setStoredDraft(null);
+      paused.current = false;
+    },
+    discard: () => {
+      clear();
+      setStoredDraft(null);
+      paused.current = false;
+    },
+    clear,
+  };
+};
+
+const NO_RENDERERS: RendererRegistry = {};
+
+/** What the form does, as opposed to how it looks; DynamicForm takes these as props */
+export interface DynamicFormOptions<TValues extends FieldValues = FieldValues> {
+  /** Return a SubmitResult or throw a SubmissionError to show server-side errors */
+  onSubmit: (data: TValues) => void | SubmitResult | Promise<void | SubmitResult>;
+  /** Custom renderers by name; they take precedence over built-ins with the same name */
+  renderers?: RendererRegistry;
+  /** Banner text when `onSubmit` fails unexpectedly; the banner offers a retry */
+  submitErrorText?: LocalizedText;
+  /** Called once the values are valid, right before `onSubmit` */
+  onSubmitStart?: (data: TValues) => void;
+  onSubmitSuccess?: (data: TValues) => void;
+  /** Receives a SubmissionError for server-side errors, or whatever `onSubmit` threw */
+  onSubmitError?: (error: unknown, data: TValues) => void;
+  /** Where `schema.saveDraft` keeps drafts; localStorage by default */
+  draftStorage?: DraftStorage;
+  /** BCP 47 tag such as `sw-KE`; falls back to FormLocaleProvider, then English. RTL locales lay out right to left */
+  locale?: string;
+  /** Message catalogs per locale, merged over FormLocaleProvider's; keep the object stable between renders */
+  messages?: FormMessages;
+}
+
+/**
+ * Everything DynamicForm renders from. Custom markup wraps its fields in
+ * <DynamicFormProvider form={form}> so useDynamicField and the built-in field
+ * components can reach the form.
+ */
+export interface DynamicFormController<TValues extends FieldValues = FieldValues> {
+  schema: FormSchema;
+  /** Current values, including hidden fields */
+  values: FormContextValue['formValues'];
+  /** React Hook Form errors by field; array fields nest row errors by index */
+  errors: FormContextValue['errors'];
+  /** The Zod schema for the current values; which rules apply depends on visibility */
+  getZodSchema: () => z.ZodTypeAny;
+  isFieldVisible: (fieldId: string) => boolean;
+  isFieldDisabled: (fieldId: string) => boolean;
+  isLayoutVisible: (node: LayoutNode) => boolean;
+  /** Top-level layout nodes to render: the whole layout, or the current wizard step's */
+  visibleLayout: LayoutNode[];
+  /** The viewport's current breakpoint; see getGridLayout */
+  breakpoint: Breakpoint;
+  wizard: {
+    enabled: boolean;
+    /** Steps that have a visible field */
+    steps: WizardStep[];
+    position: number;
+    isLastStep: boolean;
+    goToStep: (position: number) => void;
+    /** Validates the current step before moving on */
+    next: () => Promise<void>;
+  };
+  /** For a <form>'s onSubmit; on wizard steps before the last it moves to the next step */
+  handleSubmit: (event: React.FormEvent<HTMLFormElement>) => void;
+  /** Same as pressing the submit button */
+  submit: () => Promise<void>;
+  reset: (values?: Partial<TValues>) => void;
+  submitStatus: SubmitStatus;
+  isSubmitting: boolean;
+  isDirty: boolean;
+  /** Values and outcome of the last submit */
+  submitted: { data: TValues; error?: unknown } | null;
+  /** Banner text after a failed submit: server messages, or `submitErrorText` */
+  formError: string | null;
+  /** The last submit failed unexpectedly rather than with server errors, so retrying may help */
+  canRetry: boolean;
+  /** Errors in layout order, once a submit has failed */
+  errorSummary: ErrorSummaryItem[];
+  /** Opens the error's wizard step and focuses its field */
+  focusError: (item: ErrorSummaryItem) => void;
+  /** Text for a polite live region; a new `key` means the same text should be read again */
+  announcement: { text: string; key: number };
+  /** Attach to the <form> element; focus management looks for fields inside it */
+  formRef: React.RefObject<HTMLFormElement | null>;
+  draft: { storedDraft: SavedDraft | null; restore: () => void; discard: () => void };
+  /** Imperative controls, as DynamicForm exposes them through `ref` */
+  handle: DynamicFormHandle<TValues>;
+  /** Value for DynamicFormProvider */
+  context: FormContextValue;
+  t: Translate;
+}
+
+/**
+ * Headless form state: values, validation, visibility, effects, computed values,
+ * drafts, wizard steps and submission, without rendering anything. DynamicForm
+ * is the default skin on top of it.
+ */
+export const useDynamicForm = <TValues extends FieldValues = FieldValues>(
+  schema: TypedFormSchema<TValues>,
+  {
+    onSubmit,
+    renderers = NO_RENDERERS,
+    submitErrorText = 'form.submitError',
+    onSubmitStart,
+    onSubmitSuccess,
+    onSubmitError,
+    draftStorage = localDraftStorage,
+    locale,
+    messages,
+  }: DynamicFormOptions<TValues>
+): DynamicFormController<TValues> => {
+  const t = useTranslator(locale, messages);
+  const defaultValues = useMemo(() => getDefaultValues(schema, renderers), [schema, renderers]);
+  const dependentFields = useMemo(() => getDependentFields(schema), [schema]);
+
+  const [pendingFields, setPendingFields] = useState<ReadonlySet<string>>(() => new Set());
+  const [asyncValidation] = useState(() =>
+    createAsyncValidation((fieldId, pending) =>
+      setPendingFields((current) => {
+        if (current.has(fieldId) === pending) return current;
+        const next = new Set(current);
+        if (pending) next.add(fieldId);
+        else next.delete(fieldId);
+        return next;
+      })
+    )
+  );
+
+  // react-hook-form lists field names even for a full pass, so submit and
+  // validate() raise this flag to tell the resolver to wait for async checks
+  const settleChecks = useRef(false);
+
+  // The Zod schema depends on which fields are visible, so it is rebuilt from the
+  // current values on every validation pass. Async results are layered on top;
+  // a full pass (submit, validate()) waits for them, starting any still debouncing.
+  const resolver = useMemo<Resolver<FieldValues>>(
+    () => async (values, context, options) => {
+      const result = await zodResolver(buildZodSchema(schema, values, renderers, t))(values, context, options);
+      const asyncFieldIds = Object.keys(schema.fields).filter(
+        (fieldId) =>
+          schema.fields[fieldId].rules?.asyncValidate &&
+          !result.errors[fieldId] &&
+          !isEmptyValue(values[fieldId]) &&
+          !isFieldDisabledIn(schema, fieldId, values) &&
+          (schema.hiddenFields === 'validate' || isFieldVisibleIn(schema, fieldId, values))
+      );
+
+      if (settleChecks.current) await asyncValidation.settle(schema, asyncFieldIds, values);
+
+      const errors = { ...result.errors };
+      asyncFieldIds.forEach((fieldId) => {
+        const check = asyncValidation.getCheck(fieldId, values[fieldId]);
+        if (check?.status === 'invalid') errors[fieldId] = { type: 'async', message: t(check.message) };
+      });
+      return Object.keys(errors).length ? { values: {}, errors } : result;
+    },
+    [schema, renderers, asyncValidation, t]
+  );
+
+  const {
+    register,
+    control,
+    handleSubmit,
+    watch,
+    setValue,
+    getValues,
+    trigger,
+    getFieldState,
+    setError,
+    reset,
+    formState: { errors, touchedFields, submitCount, isDirty, isSubmitting },
+  } = useForm({
+    resolver,
+    defaultValues,
+    mode: 'onChange',
+    // Focus follows layout order and reaches fields without refs; see reportErrors
+    shouldFocusError: false,
+  });
+
+  // Re-validate fields whose custom validator reads the field that just changed,
+  // but only once the user has interacted with them or they already show an error.
+  // Async checks restart for the new value and report back through trigger().
+  useEffect(() => {
+    const subscription = watch((values, { name }) => {
+      const asyncRule = name ? schema.fields[name]?.rules?.asyncValidate : undefined;
+      if (name && asyncRule) {
+        if (isEmptyValue(values[name])) {
+          asyncValidation.cancel(name);
+        } else {
+          const check = asyncValidation.start(name, asyncRule, values[name], values, () => !getFieldState(name).error);
+          check.done.then(() => {
+            if (check.status === 'invalid' && asyncValidation.getCheck(name, getValues(name)) === check) trigger(name);
+          });
+        }
+      }
+
+      const dependents = name ? dependentFields[name] : undefined;
+      if (!dependents) return;
+      const stale = dependents.filter((dep) => {
+        const state = getFieldState(dep);
+        return state.isTouched || state.invalid;
+      });
+      if (stale.length) trigger(stale);
+    });
+    return () => subscription.unsubscribe();
+  }, [watch, trigger, getFieldState, getValues, dependentFields, schema, asyncValidation]);
+
+  useEffect(() => {
+    const subscription = subscribeEffects(schema, defaultValues, { watch, setValue, getValues, getFieldState });
+    return () => subscription?.unsubscribe();
+  }, [watch, setValue, getValues, getFieldState, schema, defaultValues]);
+
+  // A restored draft keeps the schema defaults as the baseline, so it still counts as unsaved
+  const draft = useDraft(schema, draftStorage, watch, (values) =>
+    reset({ ...defaultValues, ...values }, { keepDefaultValues: true })
+  );
+
+  const formValues = watch();
+
+  const isFieldVisible = (fieldId: string): boolean => isFieldVisibleIn(schema, fieldId, formValues);
+  const isFieldDisabled = (fieldId: string): boolean => isFieldDisabledIn(schema, fieldId, formValues);
+  const isLayoutVisible = (node: LayoutNode): boolean => isLayoutVisibleIn(schema, node, formValues);
+  const breakpoint = useBreakpoint(schema.breakpoints);
+  const [loadedOptions] = useState<LoadedOptionsCache>(() => new WeakMap());
+  const [optionsCache] = useState<RemoteOptionsCache>(() => new WeakMap());
+
+  // Wizard state. `stepIndex` points into all steps rather than the visible ones,
+  // so showing or hiding an earlier step doesn't move the user.
+  const isWizard = schema.layoutMode === 'wizard';
+  const steps = useMemo(() => getWizardSteps(schema), [schema]);
+  const [stepIndex, setStepIndex] = useState(0);
+  const activeSteps = steps.filter((step) => step.nodes.some((node) => hasVisibleField(schema, node, formValues)));
+  const currentLayoutIndex = steps[stepIndex]?.index ?? 0;
+  const foundPosition = activeSteps.findIndex((step) => step.index >= currentLayoutIndex);
+  const position = foundPosition === -1 ? Math.max(activeSteps.length - 1, 0) : foundPosition;
+  const currentStep = activeSteps[position];
+  const isLastStep = position >= activeSteps.length - 1;
+
+  const goToStep = (target: number) => {
+    const step = activeSteps[target];
+    if (step) setStepIndex(steps.indexOf(step));
+  };
+
+  const goToNextStep = async () => {
+    const stepFields = collectFieldIds(currentStep?.nodes || []).filter(isFieldVisible);
+    if (stepFields.length && !(await trigger(stepFields))) return reportErrors(false);
+    // Field-level validation doesn't wait for async checks, so settle them before leaving the step
+    const checkedFields = stepFields.filter((fieldId) => schema.fields[fieldId].rules?.asyncValidate);
+    if (checkedFields.length) {
+      await asyncValidation.settle(schema, checkedFields, getValues());
+      if (!(await trigger(checkedFields))) return reportErrors(false);
+    }
+    goToStep(position + 1);
+  };
+
+  // A failed final submit can involve fields on earlier steps (e.g. cross-field
+  // validators or server errors), so jump to the first step that has an error.
+  const goToFirstStepWith = (fieldIds: string[]) => {
+    if (!isWizard) return;
+    const target = activeSteps.findIndex((step) =>
+      collectFieldIds(step.nodes).some((fieldId) => fieldIds.includes(fieldId))
+    );
+    if (target !== -1) goToStep(target);
+  };
+
+  const formElement = useRef<HTMLFormElement>(null);
+  const [summaryOpen, setSummaryOpen] = useState(false);
+  const [announcement, setAnnouncement] = useState({ text: '', key: 0 });
+  const errorSummary = summaryOpen ? collectErrorSummary(schema, errors, t) : [];
+
+  const focusError = (item: ErrorSummaryItem) => {
+    goToFirstStepWith([item.fieldId]);
+    focusField(formElement.current, item.inputId);
+  };
+
+  // After a failed submit (or step), announce how many fields need attention and
+  // focus the first. Reads errors through getFieldState, since formState is a render behind.
+  const reportErrors = (openSummary = true) => {
+    const currentErrors = Object.fromEntries(Object.keys(schema.fields).map((fieldId) => [fieldId, getFieldState(fieldId).error]));
+    const summary = collectErrorSummary(schema, currentErrors, t);
+    if (!summary.length) return;
+    if (openSummary) setSummaryOpen(true);
+    // A fresh key makes screen readers repeat the same text
+    setAnnouncement((current) => ({ text: t('errorSummary.title', { count: summary.length }), key: current.key + 1 }));
+    focusError(summary[0]);
+  };
+
+  const [formError, setFormError] = useState<string | null>(null);
+
+  // Errors for fields that aren't on screen can't be shown in place, so they join the banner.
+  const showServerErrors = ({ fieldErrors = {}, formError: message }: SubmitResult) => {
+    const unplaced: string[] = [];
+    const placedFields: string[] = [];
+    Object.entries(fieldErrors).forEach(([path, messages]) => {
+      const fieldPath = toFieldPath(path);
+      const fieldId = fieldPath.split('.')[0];
+      const text = Array.isArray(messages) ? messages.join(' ') : messages;
+      if (schema.fields[fieldId] && isFieldVisible(fieldId)) {
+        setError(fieldPath, { type: 'server', message: text });
+        placedFields.push(fieldId);
+      } else {
+        unplaced.push(`${schema.fields[fieldId] ? t(schema.fields[fieldId].label) : path}: ${text}`);
+      }
+    });
+
+    const banner = [message, ...unplaced].filter(Boolean).join('\n');
+    setFormError(banner || null);
+    if (placedFields.length) reportErrors();
+  };
+
+  const [submitStatus, setSubmitStatus] = useState<SubmitStatus>('idle');
+  const [submitted, setSubmitted] = useState<{ data: TValues; error?: unknown } | null>(null);
+
+  // Values are shaped by the same schema, so they match the type `defineForm` inferred
+  const submitForm = handleSubmit(
+    async (data) => {
+      const values = data as TValues;
+      setSubmitStatus('submitting');
+      onSubmitStart?.(values);
+      try {
+        const result = await onSubmit(values);
+        if (result && (result.formError || Object.keys(result.fieldErrors ?? {}).length)) {
+          throw new SubmissionError(result);
+        }
+        draft.clear();
+        setSubmitted({ data: values });
+        setSubmitStatus('success');
+        onSubmitSuccess?.(values);
+      } catch (error) {
+        if (error instanceof SubmissionError) showServerErrors(error);
+        else setFormError(t(submitErrorText));
+        setSubmitted({ data: values, error });
+        setSubmitStatus('error');
+        onSubmitError?.(error, values);
+      }
+    },
+    () => reportErrors()
+  );
+
+  const withSettledChecks = async <T,>(pass: () => Promise<T>): Promise<T> => {
+    settleChecks.current = true;
+    try {
+      return await pass();
+    } finally {
+      settleChecks.current = false;
+    }
+  };
+
+  // Guards against double submission while validation or `onSubmit` is still running;
+  // a ref because two clicks can land before the disabled button re-renders.
+  const submitInFlight = useRef(false);
+  const startSubmit = async (event?: React.FormEvent<HTMLFormElement>) => {
+    if (submitInFlight.current) {
+      event?.preventDefault();
+      return;
+    }
+    submitInFlight.current = true;
+    setFormError(null);
+    try {
+      await withSettledChecks(() => submitForm(event));
+    } finally {
+      submitInFlight.current = false;
+    }
+  };
+
+  const handleFormSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    if (isWizard && !isLastStep) {
+      event.preventDefault();
+      goToNextStep();
+      return;
+    }
+    startSubmit(event);
+  };
+
+  const resetForm = (values?: Partial<TValues>) => {
+    Object.keys(schema.fields).forEach((fieldId) => asyncValidation.cancel(fieldId));
+    reset({ ...defaultValues, ...values });
+    setStepIndex(0);
+    setFormError(null);
+    setSummaryOpen(false);
+    setSubmitStatus('idle');
+    setSubmitted(null);
+  };
+
+  const canRetry = submitStatus === 'error' && !(submitted?.error instanceof SubmissionError);
+
+  const handle: DynamicFormHandle<TValues> = {
+    reset: resetForm,
+    setValues: (values, options) => {
+      Object.entries(values).forEach(([fieldId, value]) => {
+        setValue(fieldId, value, { shouldDirty: true, shouldValidate: options?.validate });
+      });
+    },
+    getValues: () => getValues() as TValues,
+    validate: (fields) => (fields ? trigger(fields) : withSettledChecks(() => trigger())),
+    submit: () => startSubmit(),
+    setErrors: (fieldErrors, message) => showServerErrors({ fieldErrors, formError: message }),
+    isDirty: () => isDirty,
+  };
+
+  const visibleLayout = isWizard ? currentStep?.nodes || [] : schema.layout;
+
+  // Resets a field as soon as it becomes hidden. Computed fields are left alone;
+  // they follow their inputs either way. setValue copies arrays and objects, so
+  // defaults are compared by value rather than identity.
+  const hiddenFieldKey = Object.keys(schema.fields)
+    .filter((fieldId) => !schema.fields[fieldId].computed && !isFieldVisible(fieldId))
+    .join(',');
+  useEffect(() => {
+    if (schema.hiddenFields !== 'clear' || !hiddenFieldKey) return;
+    hiddenFieldKey.split(',').forEach((fieldId) => {
+      if (!isSameValue(getValues(fieldId), defaultValues[fieldId])) {
+        setValue(fieldId, defaultValues[fieldId], { shouldValidate: false });
+      }
+    });
+  }, [schema, hiddenFieldKey, defaultValues, getValues, setValue]);
+
+  useEffect(() => {
+    const subscription = subscribeComputedValues(schema, submitCount, { watch, setValue, getValues, getFieldState });
+    return () => subscription?.unsubscribe();
+  }, [watch, setValue, getValues, getFieldState, schema, submitCount]);
+
+  // Messages are translated as fields validate, so errors already on screen are
+  // validated again after a language switch. Server errors can't be re-created.
+  const validatedLocale = useRef(t.locale);
+  useEffect(() => {
+    if (validatedLocale.current === t.locale) return;
+    validatedLocale.current = t.locale;
+    const shown = Object.keys(errors).filter((fieldId) => errors[fieldId]?.type !== 'server');
+    if (shown.length) trigger(shown);
+  });
+
+  const contextValue: FormContextValue = {
+    schema,
+    formValues,
+    errors,
+    touchedFields: new Set(Object.keys(touchedFields)),
+    pendingFields,
+    touchedTree: touchedFields,
+    submitCount,
+    isFieldVisible,
+    isFieldDisabled,
+    isLayoutVisible,
+    breakpoint,
+    loadedOptions,
+    optionsCache,
+    register,
+    setValue,
+    control,
+    namePrefix: '',
+    getInputId: (fieldId) => fieldId,
+    renderers,
+    locale: t.locale,
+    t,
+  };
+
+  return {
+    schema,
+    values: formValues,
+    errors,
+    getZodSchema: () => buildZodSchema(schema, getValues(), renderers, t),
+    isFieldVisible,
+    isFieldDisabled,
+    isLayoutVisible,
+    visibleLayout,
+    breakpoint,
+    wizard: {
+      enabled: isWizard,
+      steps: activeSteps,
+      position,
+      isLastStep,
+      goToStep,
+      next: goToNextStep,
+    },
+    handleSubmit: handleFormSubmit,
+    submit: () => startSubmit(),
+    reset: resetForm,
+    submitStatus,
+    isSubmitting,
+    isDirty,
+    submitted,
+    formError,
+    canRetry,
+    errorSummary,
+    focusError,
+    announcement,
+    formRef: formElement,
+    draft: { storedDraft: draft.storedDraft, restore: draft.restore, discard: draft.discard },
+    handle,
+    context: contextValue,
+    t,
+  };
+};
@@ -0,0 +1,269 @@
+/**
+ * ================================================================
+ * LOCALIZATION
+ * ================================================================
+ *
+ * Schema text (labels, placeholders, titles, rule messages, option labels) is
+ * LocalizedText: either a string or a map from locale to text. Strings are looked
+ * up as message keys first and shown as written when no catalog has them, so
+ * plain English schemas keep working and can be translated key by key.
+ *
+ * Lookups go from the exact locale to its language and then to English
+ * (`sw-KE` → `sw` → `en`); app messages win over the built-in ones at each step.
+ * Messages can interpolate values: `Must be at least {min} characters`. Keys with
+ * a numeric `count` can have plural forms (`key.one`, `key.other`, ...), picked
+ * with the locale's plural rules.
+ *
+ * Usage:
+ * const messages = { sw: { 'Full Name': 'Jina Kamili', 'form.submit': 'Tuma' } };
+ * <DynamicForm schema={schema} locale="sw" messages={messages} onSubmit={handleSubmit} />
+ */
+
+/** A string (message key or literal text) or text per locale, e.g. `{ en: 'Name', sw: 'Jina' }` */
+export type LocalizedText = string | Readonly<Record<string, string>>;
+
+/** Message templates keyed by message key */
+export type MessageCatalog = Record<string, string>;
+
+/** Message catalogs keyed by locale */
+export type FormMessages = Record<string, MessageCatalog>;
+
+export interface Translate {
+  (text: LocalizedText | undefined, values?: Record<string, unknown>): string;
+  /** The locale messages are resolved and formatted for */
+  locale: string;
+}
+
+export const DEFAULT_LOCALE = 'en';
+
+/** Text the form itself shows: fallback validation messages, option states, buttons */
+export const builtInMessages: FormMessages = {
+  en: {
+    'validation.required': 'Required',
+    'validation.invalid': 'Invalid value',
+    'validation.number': 'Enter a number',
+    'validation.email': 'Invalid email',
+    'validation.url': 'Invalid URL',
+    'validation.min': 'Must be at least {min}',
+    'validation.max': 'Must be at most {max}',
+    'validation.maxValues': 'Select no more than {max}',
+    'validation.maxItems': 'No more than {max} allowed',
+    'validation.minDate': 'Date must be on or after {date}',
+    'validation.maxDate': 'Date must be on or before {date}',
+    'validation.fileSize': 'File must be {size} or smaller',
+    'validation.fileType': 'File type must be one of: {accept}',
+    'field.checking': 'Checking',
+    'field.required': 'required',
+    'options.select': 'Select...',
+    'options.search': 'Search...',
+    'options.selectParent': 'Select a {field} first',
+    'options.loading': 'Loading options...',
+    'options.loadingMore': 'Loading more...',
+    'options.error': 'Could not load options',
+    'options.empty': 'No options available',
+    'options.noMatches': 'No matches',
+    'options.retry': 'Retry',
+    'options.loadMore': 'Load more',
+    'options.scrollForMore': 'Scroll for more',
+    'multiselect.remove': 'Remove {option}',
+    'multiselect.count': '{count} / {max} selected',
+    'file.remove': 'Remove',
+    'file.accepted': 'Accepted: {accept}',
+    'file.maxSize': 'Max size: {size}',
+    'array.empty': 'Nothing added yet',
+    'array.add': 'Add {item}',
+    'array.remove': 'Remove',
+    'array.removeRow': 'Remove {item} {number}',
+    'array.moveUp': 'Move {item} {number} up',
+    'array.moveDown': 'Move {item} {number} down',
+    'computed.yes': 'Yes',
+    'computed.no': 'No',
+    'wizard.progress': 'Form progress',
+    'wizard.summary': 'Step {current} of {total}',
+    'wizard.step': 'Step {number}',
+    'form.submit': 'Submit',
+    'form.submitting': 'Submitting...',
+    'form.next': 'Next',
+    'form.back': 'Back',
+    'form.submitError': 'Something went wrong while submitting. Please try again.',
+    'form.retry': 'Try again',
+    'draft.prompt': 'You have an unsaved draft from {savedAt}. Restore it?',
+    'draft.restore': 'Restore',
+    'draft.discard': 'Discard',
+    'errorSummary.title.one': 'There is a problem with 1 field',
+    'errorSummary.title.other': 'There are problems with {count} fields',
+    'errorSummary.rowField': '{item} {number}: {field}',
+  },
+  sw: {
+    'validation.required': 'Inahitajika',
+    'validation.invalid': 'Thamani si sahihi',
+    'validation.number': 'Weka nambari',
+    'validation.email': 'Barua pepe si sahihi',
+    'validation.url': 'Anwani ya wavuti si sahihi',
+    'validation.min': 'Lazima iwe angalau {min}',
+    'validation.max': 'Isizidi {max}',
+    'validation.maxValues': 'Chagua zisizozidi {max}',
+    'validation.maxItems': 'Zisizozidi {max} zinaruhusiwa',
+    'validation.minDate': 'Tarehe lazima iwe {date} au baadaye',
+    'validation.maxDate': 'Tarehe lazima iwe {date} au kabla',
+    'validation.fileSize': 'Faili isizidi {size}',
+    'validation.fileType': 'Aina ya faili lazima iwe mojawapo ya: {accept}',
+    'field.checking': 'Inakagua',
+    'field.required': 'inahitajika',
+    'options.select': 'Chagua...',
+    'options.search': 'Tafuta...',
+    'options.selectParent': 'Chagua {field} kwanza',
+    'options.loading': 'Inapakia chaguo...',
+    'options.loadingMore': 'Inapakia zaidi...',
+    'options.error': 'Imeshindwa kupakia chaguo',
+    'options.empty': 'Hakuna chaguo',
+    'options.noMatches': 'Hakuna kinacholingana',
+    'options.retry': 'Jaribu tena',
+    'options.loadMore': 'Pakia zaidi',
+    'options.scrollForMore': 'Sogeza chini kuona zaidi',
+    'multiselect.remove': 'Ondoa {option}',
+    'multiselect.count': '{count} / {max} zimechaguliwa',
+    'file.remove': 'Ondoa',
+    'file.accepted': 'Zinazokubalika: {accept}',
+    'file.maxSize': 'Ukubwa wa juu: {size}',
+    'array.empty': 'Hakuna kilichoongezwa bado',
+    'array.add': 'Ongeza {item}',
+    'array.remove': 'Ondoa',
+    'array.removeRow': 'Ondoa {item} {number}',
+    'array.moveUp': 'Sogeza {item} {number} juu',
+    'array.moveDown': 'Sogeza {item} {number} chini',
+    'computed.yes': 'Ndiyo',
+    'computed.no': 'Hapana',
+    'wizard.progress': 'Maendeleo ya fomu',
+    'wizard.summary': 'Hatua {current} kati ya {total}',
+    'wizard.step': 'Hatua {number}',
+    'form.submit': 'Wasilisha',
+    'form.submitting': 'Inawasilisha...',
+    'form.next': 'Endelea',
+    'form.back': 'Rudi',
+    'form.submitError': 'Hitilafu imetokea wakati wa kuwasilisha. Tafadhali jaribu tena.',
+    'form.retry': 'Jaribu tena',
+    'draft.prompt': 'Una rasimu ambayo haijatumwa ya {savedAt}. Ungependa kuirejesha?',
+    'draft.restore': 'Rejesha',
+    'draft.discard': 'Futa',
+    'errorSummary.title.one': 'Kuna tatizo kwenye sehemu 1',
+    'errorSummary.title.other': 'Kuna matatizo kwenye sehemu {count}',
+    'errorSummary.rowField': '{item} {number}: {field}',
+  },
+};
+
+const RTL_LANGUAGES = new Set(['ar', 'arc', 'ckb', 'dv', 'fa', 'he', 'iw', 'ks', 'ps', 'sd', 'ug', 'ur', 'yi']);
+
+const getLanguage = (locale: string) => locale.split(/[-_]/)[0].toLowerCase();
+
+export const isRtlLocale = (locale: string): boolean => RTL_LANGUAGES.has(getLanguage(locale));
+
+/** `sw-KE` → `['sw-KE', 'sw', 'en']` */
+const getLocaleChain = (locale: string): string[] => {
+  const chain = [locale, getLanguage(locale), DEFAULT_LOCALE];
+  return chain.filter((entry, index) => entry && chain.indexOf(entry) === index);
+};
+
+const readOwn = (record: Readonly<Record<string, string>> | undefined, key: string): string | undefined =>
+  record && Object.hasOwn(record, key) ? record[key] : undefined;
+
+const pluralRules = new Map<string, Intl.PluralRules>();
+
+const getPluralCategory = (locale: string, count: number): string => {
+  let rules = pluralRules.get(locale);
+  if (!rules) {
+    rules = new Intl.PluralRules(locale);
+    pluralRules.set(locale, rules);
+  }
+  return rules.select(count);
+};
+
+const numberFormats = new Map<string, Intl.NumberFormat>();
+
+const getNumberFormat = (locale: string, options?: Intl.NumberFormatOptions): Intl.NumberFormat => {
+  const key = `${locale}|${JSON.stringify(options ?? {})}`;
+  let format = numberFormats.get(key);
+  if (!format) {
+    format = new Intl.NumberFormat(locale, options);
+    numberFormats.set(key, format);
+  }
+  return format;
+};
+
+/** Formats numbers and numeric strings; anything else is returned as text */
+export const formatNumber = (value: unknown, locale: string, options?: Intl.NumberFormatOptions): string => {
+  const number = typeof value === 'number' ? value : typeof value === 'string' && value.trim() !== '' ? Number(value) : NaN;
+  return Number.isFinite(number) ? getNumberFormat(locale, options).format(number) : String(value ?? '');
+};
+
+const getSeparators = (locale: string) => {
+  const parts = getNumberFormat(locale).formatToParts(12345.6);
+  return {
+    group: parts.find((part) => part.type === 'group')?.value ?? ',',
+    decimal: parts.find((part) => part.type === 'decimal')?.value ?? '.',
+  };
+};
+
+/**
+ * Reads a number typed the local way (`1.234,5` in German, Arabic-Indic digits)
+ * into the plain `1234.5` form. Text that isn't a number comes back without the
+ * grouping so validation can reject it.
+ */
+export const parseNumber = (text: string, locale: string): string => {
+  const { group, decimal } = getSeparators(locale);
+  return text
+    .replace(/[٠-٩]/g, (digit) => String(digit.charCodeAt(0) - 0x0660))
+    .replace(/[۰-۹]/g, (digit) => String(digit.charCodeAt(0) - 0x06f0))
+    .replace(/\s/g, '')
+    .split(group)
+    .join('')
+    .replace(decimal, '.');
+};
+
+/** The plain form of a number with the locale's decimal mark, for editing */
+export const toEditableNumber = (value: unknown, locale: string): string =>
+  value === undefined || value === null ? '' : String(value).replace('.', getSeparators(locale).decimal);
+
+/** Formats a Date or a `YYYY-MM-DD` date input value; the latter is read as a local date */
+export const formatDate = (
+  value: Date | string,
+  locale: string,
+  options: Intl.DateTimeFormatOptions = { dateStyle: 'long' }
+): string => {
+  const parts = typeof value === 'string' ? /^(\d{4})-(\d{2})-(\d{2})$/.exec(value) : null;
+  const date = parts ? new Date(Number(parts[1]), Number(parts[2]) - 1, Number(parts[3])) : new Date(value);
+  return Number.isNaN(date.getTime()) ? String(value) : new Intl.DateTimeFormat(locale, options).format(date);
+};
+
+/** Fills `{name}` placeholders; numbers are formatted for the locale, unknown names are left as written */
+export const interpolate = (template: string, values: Record<string, unknown>, locale: string): string =>
+  template.replace(/\{(\w+)\}/g, (placeholder, name: string) => {
+    if (!Object.hasOwn(values, name) || values[name] === undefined || values[name] === null) return placeholder;
+    const value = values[name];
+    return typeof value === 'number' ? formatNumber(value, locale) : String(value);
+  });
+
+export const createTranslator = (locale: string, messages: FormMessages = {}): Translate => {
+  const chain = getLocaleChain(locale);
+
+  const lookup = (key: string): string | undefined => {
+    for (const entry of chain) {
+      const message = readOwn(messages[entry], key) ?? readOwn(builtInMessages[entry], key);
+      if (message !== undefined) return message;
+    }
+    return undefined;
+  };
+
+  const translate = (text: LocalizedText | undefined, values?: Record<string, unknown>) => {
+    if (text === undefined) return '';
+    const count = values?.count;
+    const plural = typeof text === 'string' && typeof count === 'number'
+      ? lookup(`${text}.${getPluralCategory(locale, count)}`) ?? lookup(`${text}.other`)
+      : undefined;
+    const template = typeof text === 'string'
+      ? plural ?? lookup(text) ?? text
+      : chain.map((entry) => readOwn(text, entry)).find((entry) => entry !== undefined) ?? Object.values(text)[0] ?? '';
+    return values ? interpolate(template, values, locale) : template;
+  };
+  return Object.assign(translate, { locale });
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { resolveTheme, toCssVariable } from './theme';
+
+describe('toCssVariable', () => {
+  it('kebab-cases token names, splitting before digits', () => {
+    expect(toCssVariable('colorPrimary')).toBe('--df-color-primary');
+    expect(toCssVariable('space2xl')).toBe('--df-space-2xl');
+    expect(toCssVariable('titleSizeSm')).toBe('--df-title-size-sm');
+  });
+});
+
+describe('resolveTheme', () => {
+  it('defaults to the light theme without overrides', () => {
+    expect(resolveTheme()).toEqual({ name: 'light', style: {} });
+    expect(resolveTheme('dark')).toEqual({ name: 'dark', style: {} });
+  });
+
+  it('lets later themes pick the base and override single tokens', () => {
+    const provider = { base: 'dark' as const, tokens: { colorPrimary: '#6d28d9', radiusMd: '2px' } };
+    const form = { tokens: { colorPrimary: '#0f766e' } };
+
+    expect(resolveTheme(provider, form)).toEqual({
+      name: 'dark',
+      style: { '--df-color-primary': '#0f766e', '--df-radius-md': '2px' },
+    });
+    expect(resolveTheme(provider, 'auto').name).toBe('auto');
+  });
+
+  it('ignores names that are not theme tokens', () => {
+    const theme = { tokens: { colorPrimary: 'red', notAToken: 'blue' } as Record<string, string> };
+    expect(resolveTheme(theme).style).toEqual({ '--df-color-primary': 'red' });
+  });
+});
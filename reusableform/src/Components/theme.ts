@@ -0,0 +1,102 @@
+/**
+ * ================================================================
+ * THEMING
+ * ================================================================
+ *
+ * Dynamic.css styles everything through `--df-*` custom properties set on
+ * `.dynamic-form`: colors, spacing, radii and typography. The built-in themes
+ * are selected with `data-theme` (light, dark, or auto to follow the system);
+ * token overrides are applied inline on top, so a brand only has to name the
+ * tokens it changes. Plain CSS can override the same properties.
+ *
+ * Usage:
+ * <DynamicForm schema={schema} theme="dark" onSubmit={handleSubmit} />
+ * <DynamicForm schema={schema} theme={{ base: 'auto', tokens: { colorPrimary: '#6d28d9' } }} />
+ */
+
+import type { CSSProperties } from 'react';
+
+export type ThemeName = 'light' | 'dark' | 'auto';
+
+export const THEME_TOKENS = [
+  'colorPrimary',
+  'colorOnPrimary',
+  'colorPrimarySoft',
+  'colorBackground',
+  'colorSurface',
+  'colorSurfaceMuted',
+  'colorSurfaceHover',
+  'colorText',
+  'colorTextSecondary',
+  'colorTextMuted',
+  'colorTextDisabled',
+  'colorBorder',
+  'colorBorderSubtle',
+  'colorError',
+  'colorErrorStrong',
+  'colorErrorSurface',
+  'colorErrorBorder',
+  'colorSuccess',
+  'colorSuccessSurface',
+  'colorInfoText',
+  'colorInfoSurface',
+  'colorInfoBorder',
+  'colorFocusRing',
+  'shadowPopover',
+  'spaceXs',
+  'spaceSm',
+  'spaceMd',
+  'spaceLg',
+  'spaceXl',
+  'space2xl',
+  'radiusSm',
+  'radiusMd',
+  'radiusLg',
+  'radiusPill',
+  'fontFamily',
+  'fontSizeXs',
+  'fontSizeSm',
+  'fontSizeMd',
+  'fontSizeLg',
+  'fontSizeXl',
+  'fontSize2xl',
+  'titleSizeSm',
+] as const;
+
+export type ThemeToken = (typeof THEME_TOKENS)[number];
+
+/** Any CSS value, e.g. `{ colorPrimary: '#6d28d9', radiusMd: '2px' }` */
+export type ThemeTokens = Partial<Record<ThemeToken, string>>;
+
+export interface FormTheme {
+  /** Built-in theme the tokens are layered on; defaults to light */
+  base?: ThemeName;
+  tokens?: ThemeTokens;
+}
+
+export type ThemeProp = ThemeName | FormTheme;
+
+/** `colorPrimary` → `--df-color-primary`, `space2xl` → `--df-space-2xl` */
+export const toCssVariable = (token: ThemeToken): string =>
+  `--df-${token.replace(/([a-z])([A-Z0-9])/g, '$1-$2').toLowerCase()}`;
+
+const toFormTheme = (theme: ThemeProp | undefined): FormTheme =>
+  typeof theme === 'string' ? { base: theme } : theme ?? {};
+
+/**
+ * The `data-theme` value and inline custom properties for a form's root. Later
+ * themes win: a form's own `theme` picks the base and overrides individual tokens
+ * of the provider's.
+ */
+export const resolveTheme = (...themes: (ThemeProp | undefined)[]) => {
+  const merged = themes.map(toFormTheme).reduce<FormTheme>(
+    (result, theme) => ({ base: theme.base ?? result.base, tokens: { ...result.tokens, ...theme.tokens } }),
+    {}
+  );
+  const style: Record<string, string> = {};
+  THEME_TOKENS.forEach((token) => {
+    const value = merged.tokens?.[token];
+    if (value !== undefined) style[toCssVariable(token)] = value;
+  });
+  return { name: merged.base ?? 'light', style: style as CSSProperties };
+};
@@ -0,0 +1,95 @@
+import { describe, expect, expectTypeOf, it } from 'vitest';
+import { defineForm, type FormValues } from './defineForm';
+
+const tripSchema = defineForm({
+  id: 'trip',
+  meta: { title: 'Trip' },
+  fields: {
+    mode: { id: 'mode', label: 'Mode', renderer: 'select', rules: { required: 'Required' } },
+    plate: { id: 'plate', label: 'Plate', renderer: 'text', rules: { required: 'Required' } },
+    seats: { id: 'seats', label: 'Seats', renderer: 'number', rules: { required: 'Required' } },
+  },
+  layout: [
+    { kind: 'field', fieldId: 'mode' },
+    {
+      kind: 'section',
+      title: 'Car',
+      visibleWhen: { field: 'mode', op: 'equals', value: 'car' },
+      children: [{ kind: 'grid', children: [{ kind: 'field', fieldId: 'plate' }] }],
+    },
+    { kind: 'field', fieldId: 'seats' },
+  ],
+});
+
+describe('defineForm', () => {
+  it('returns the definition unchanged', () => {
+    expect(tripSchema.fields.plate).toMatchObject({ id: 'plate', renderer: 'text' });
+  });
+
+  it('makes required fields inside a conditional layout node optional', () => {
+    expectTypeOf<FormValues<typeof tripSchema>>().toEqualTypeOf<{ mode: string; seats: number; plate?: string }>();
+  });
+});
+
+describe('defineForm field references', () => {
+  it('types submitted values by renderer, rules and effects', () => {
+    const schema = defineForm({
+      id: 'order',
+      meta: { title: 'Order' },
+      fields: {
+        name: { id: 'name', label: 'Name', renderer: 'text', rules: { required: 'Required' } },
+        note: { id: 'note', label: 'Note', renderer: 'text' },
+        quantity: { id: 'quantity', label: 'Quantity', renderer: 'number', rules: { required: 'Required' } },
+        gift: { id: 'gift', label: 'Gift', renderer: 'checkbox', rules: { required: true } },
+        tags: { id: 'tags', label: 'Tags', renderer: 'multiselect' },
+        code: { id: 'code', label: 'Code', renderer: 'text', rules: { required: 'Required' } },
+        total: { id: 'total', label: 'Total', renderer: 'text', computed: { expression: 'quantity * 2' } },
+      },
+      layout: [{ kind: 'field', fieldId: 'name' }],
+      effects: [{ if: { field: 'gift', op: 'equals', value: false }, disable: ['code'] }],
+    });
+
+    expectTypeOf<FormValues<typeof schema>>().toEqualTypeOf<{
+      name: string;
+      quantity: number;
+      gift: boolean;
+      note?: string;
+      tags?: string[];
+      code?: string;
+    }>();
+    expect(schema.effects).toHaveLength(1);
+  });
+
+  it('rejects references to fields the form does not have', () => {
+    defineForm({
+      id: 'refs',
+      meta: { title: 'References' },
+      fields: {
+        name: { id: 'name', label: 'Name', renderer: 'text', rules: { deps: ['email'] } },
+        // @ts-expect-error the id must match the key
+        email: { id: 'mail', label: 'Email', renderer: 'text' },
+        city: { id: 'city', label: 'City', renderer: 'text', optionsFrom: { dependsOn: 'name', map: {} } },
+      },
+      layout: [
+        // @ts-expect-error unknown layout field
+        { kind: 'field', fieldId: 'phone' },
+        // @ts-expect-error unknown visibleWhen field
+        { kind: 'stack', visibleWhen: { field: 'age', op: 'isEmpty' }, children: [] },
+      ],
+      // @ts-expect-error unknown effect target
+      effects: [{ on: 'name', clear: ['country'] }],
+    });
+
+    defineForm({
+      id: 'deps',
+      meta: { title: 'Dependencies' },
+      fields: {
+        // @ts-expect-error unknown rules.deps field
+        name: { id: 'name', label: 'Name', renderer: 'text', rules: { deps: ['surname'] } },
+        // @ts-expect-error unknown optionsFrom parent
+        city: { id: 'city', label: 'City', renderer: 'text', optionsFrom: { dependsOn: 'country', map: {} } },
+      },
+      layout: [],
+    });
+  });
+});
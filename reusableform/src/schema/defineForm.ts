@@ -0,0 +1,171 @@
+/**
+ * ================================================================
+ * TYPED FORM SCHEMAS
+ * ================================================================
+ *
+ * `defineForm` returns its argument unchanged, but checks field references at
+ * compile time and records the type of the submitted values:
+ * - layout `fieldId`, `visibleWhen` fields, `rules.deps`, `optionsFrom.dependsOn`,
+ *   `computed.deps` and the fields named in `effects` must name a field of the form
+ * - each field's `id` must equal its key
+ *
+ * Value types by renderer: number → number, checkbox/switch → boolean,
+ * multiselect → string[], file → File, array → row objects, custom renderers →
+ * unknown, everything else → string. Fields without `rules.required`, and
+ * fields with `visibleWhen`, inside a layout node with `visibleWhen` or that an
+ * effect can disable, are optional. Computed fields are left out unless they set
+ * `computed.submit`.
+ *
+ * Usage:
+ * const signupSchema = defineForm({ id: 'signup', meta, fields, layout });
+ * type Signup = FormValues<typeof signupSchema>;
+ *
+ * <DynamicForm schema={signupSchema} onSubmit={(data) => data.email} />
+ */
+
+import type {
+  ComputedValue,
+  FieldDefinition,
+  FieldEffect,
+  FormSchema,
+  LayoutNode,
+  OptionSource,
+  TypedFormSchema,
+  ValidationRules,
+  VisibilityCondition,
+} from '../Components/Dynamic';
+import type { LocalizedText } from '../Components/i18n';
+
+// ================================================================
+// FIELD REFERENCES
+// ================================================================
+
+export type TypedVisibilityRule<K extends string> =
+  | (Omit<VisibilityCondition, 'field'> & { field: K })
+  | TypedVisibilityRule<K>[]
+  | { all: TypedVisibilityRule<K>[] }
+  | { any: TypedVisibilityRule<K>[] }
+  | { not: TypedVisibilityRule<K> };
+
+export type TypedLayoutNode<K extends string> = Omit<LayoutNode, 'fieldId' | 'children' | 'visibleWhen'> & {
+  fieldId?: K;
+  children?: TypedLayoutNode<K>[];
+  visibleWhen?: TypedVisibilityRule<K>;
+};
+
+export type TypedFieldDefinition<K extends string> = Omit<FieldDefinition, 'rules' | 'visibleWhen' | 'optionsFrom' | 'computed'> & {
+  rules?: Omit<ValidationRules, 'deps'> & { deps?: K[] };
+  visibleWhen?: TypedVisibilityRule<K>;
+  optionsFrom?: Omit<OptionSource, 'dependsOn'> & { dependsOn: K };
+  computed?: Omit<ComputedValue, 'deps'> & { deps?: K[] };
+};
+
+export interface TypedFieldEffect<K extends string, TDisabled extends K = K>
+  extends Omit<FieldEffect, 'on' | 'if' | 'set' | 'clear' | 'disable' | 'enable'> {
+  on?: K | K[];
+  if?: TypedVisibilityRule<K>;
+  set?: { [P in K]?: unknown };
+  clear?: K[];
+  disable?: TDisabled[];
+  enable?: TDisabled[];
+}
+
+// ================================================================
+// VALUE TYPES
+// ================================================================
+
+type RendererValues = {
+  text: string;
+  textarea: string;
+  select: string;
+  radio: string;
+  date: string;
+  number: number;
+  checkbox: boolean;
+  switch: boolean;
+  multiselect: string[];
+  file: File;
+};
+
+type FieldValue<F> = F extends { renderer: 'array'; item: { fields: infer TRow } }
+  ? RowValues<TRow>[]
+  : F extends { renderer: infer R }
+    ? R extends keyof RendererValues
+      ? RendererValues[R]
+      : unknown
+    : unknown;
+
+/** Empty file inputs submit null rather than being left out */
+type OptionalFieldValue<F> = F extends { renderer: 'file' } ? File | null : FieldValue<F>;
+
+type IsRequired<F> = F extends { visibleWhen: object }
+  ? false
+  : F extends { rules: { required: LocalizedText | true } }
+    ? true
+    : false;
+
+type RequiredKeys<TFields> = {
+  [P in keyof TFields]: IsRequired<TFields[P]> extends true ? P : never;
+}[keyof TFields];
+
+type SubmittedKeys<TFields> = {
+  [P in keyof TFields]: TFields[P] extends { computed: object }
+    ? TFields[P] extends { computed: { submit: true } } ? P : never
+    : P;
+}[keyof TFields];
+
+type Simplify<T> = { [P in keyof T]: T[P] } & {};
+
+type RowValues<TFields, TOptional = never> = Simplify<
+  { [P in Exclude<Extract<RequiredKeys<TFields>, SubmittedKeys<TFields>>, TOptional>]: FieldValue<TFields[P]> } & {
+    [P in Exclude<SubmittedKeys<TFields>, Exclude<RequiredKeys<TFields>, TOptional>>]?: OptionalFieldValue<TFields[P]>;
+  }
+>;
+
+/** Every field id placed anywhere under a layout node */
+type LayoutFieldIds<TNode> = TNode extends { fieldId: infer K extends string }
+  ? K
+  : TNode extends { children: readonly (infer TChild)[] }
+    ? LayoutFieldIds<TChild>
+    : never;
+
+/** Field ids under a layout node with `visibleWhen`, which leaves them out while it is hidden */
+type ConditionalLayoutFieldIds<TNode> = TNode extends { visibleWhen: object }
+  ? LayoutFieldIds<TNode>
+  : TNode extends { children: readonly (infer TChild)[] }
+    ? ConditionalLayoutFieldIds<TChild>
+    : never;
+
+/** Submitted values for a `fields` map; `TOptional` names fields that may be left out (e.g. disabled ones) */
+export type FieldValues<TFields, TOptional = never> = RowValues<TFields, TOptional>;
+
+/** Submitted values of a schema built with `defineForm` */
+export type FormValues<TSchema> = TSchema extends TypedFormSchema<infer TValues> ? TValues : Record<string, unknown>;
+
+// ================================================================
+// BUILDER
+// ================================================================
+
+type FieldKeys<TFields> = Extract<keyof TFields, string>;
+
+export type FormDefinition<
+  TFields,
+  TDisabled extends FieldKeys<TFields> = never,
+  TLayout extends TypedLayoutNode<FieldKeys<TFields>>[] = TypedLayoutNode<FieldKeys<TFields>>[],
+> = Omit<FormSchema, 'fields' | 'layout' | 'effects'> & {
+  fields: TFields & { [P in keyof TFields]: TypedFieldDefinition<FieldKeys<TFields>> & { id: P } };
+  layout: TLayout;
+  effects?: TypedFieldEffect<FieldKeys<TFields>, TDisabled>[];
+};
+
+/** Submitted values of a definition: disabled fields and those in conditional layout nodes may be left out */
+type DefinedValues<TFields, TDisabled, TLayout> = FieldValues<TFields, TDisabled | ConditionalLayoutFieldIds<TLayout[keyof TLayout & number]>>;
+
+export const defineForm = <
+  TFields extends Record<string, FieldDefinition>,
+  TDisabled extends FieldKeys<TFields> = never,
+  TLayout extends TypedLayoutNode<FieldKeys<TFields>>[] = TypedLayoutNode<FieldKeys<TFields>>[],
+>(
+  definition: FormDefinition<TFields, TDisabled, TLayout>
+): TypedFormSchema<DefinedValues<TFields, TDisabled, TLayout>> =>
+  definition as TypedFormSchema<DefinedValues<TFields, TDisabled, TLayout>>;
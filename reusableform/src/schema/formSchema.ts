@@ -8,78 +8,92 @@
  * - meta: Form metadata (title, subtitle, etc.)
  * - fields: Object map of all field definitions
  * - layout: Array of layout nodes defining structure
+ *
+ * Each schema goes through defineForm, so layout and visibleWhen references are
+ * checked at compile time and FormValues<typeof schema> gives the submitted data.
  */
 
+import { defineForm } from "./defineForm";
+
 // ================================================================
 // EXAMPLE 1: SIMPLE CONTACT FORM
 // ================================================================
 
-export const contactFormSchema: any = {
+export const contactFormSchema = defineForm({
     id: "contact-form",
     meta: {
-        title: "Contact Us",
-        subtitle: "We'd love to hear from you"
+        title: { en: "Contact Us", sw: "Wasiliana Nasi" },
+        subtitle: { en: "We'd love to hear from you", sw: "Tungependa kusikia kutoka kwako" }
     },
     fields: {
         name: {
             id: "name",
-            label: "Full Name",
+            label: { en: "Full Name", sw: "Jina Kamili" },
             renderer: "text",
-            placeholder: "Enter your full name",
+            placeholder: { en: "Enter your full name", sw: "Andika jina lako kamili" },
             rules: {
-                required: "Name is required",
-                minLength: { value: 2, message: "Name must be at least 2 characters" }
+                required: { en: "Name is required", sw: "Jina linahitajika" },
+                minLength: {
+                    value: 2,
+                    message: { en: "Name must be at least {min} characters", sw: "Jina lazima liwe na angalau herufi {min}" }
+                }
             }
         },
         email: {
             id: "email",
-            label: "Email Address",
+            label: { en: "Email Address", sw: "Barua Pepe" },
             renderer: "text",
             inputType: "email",
             placeholder: "you@example.com",
             rules: {
-                required: "Email is required",
+                required: { en: "Email is required", sw: "Barua pepe inahitajika" },
                 pattern: {
                     value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
-                    message: "Invalid email address"
+                    message: { en: "Invalid email address", sw: "Anwani ya barua pepe si sahihi" }
                 }
             }
         },
         subject: {
             id: "subject",
-            label: "Subject",
+            label: { en: "Subject", sw: "Mada" },
             renderer: "select",
-            placeholder: "Select a subject",
+            placeholder: { en: "Select a subject", sw: "Chagua mada" },
             props: {
                 data: [
-                    { label: "General Inquiry", value: "general" },
-                    { label: "Technical Support", value: "support" },
-                    { label: "Sales", value: "sales" },
-                    { label: "Partnership", value: "partnership" }
+                    { label: { en: "General Inquiry", sw: "Maswali ya Jumla" }, value: "general" },
+                    { label: { en: "Technical Support", sw: "Msaada wa Kiufundi" }, value: "support" },
+                    { label: { en: "Sales", sw: "Mauzo" }, value: "sales" },
+                    { label: { en: "Partnership", sw: "Ushirikiano" }, value: "partnership" }
                 ]
             },
             rules: {
-                required: "Please select a subject"
+                required: { en: "Please select a subject", sw: "Tafadhali chagua mada" }
             }
         },
         message: {
             id: "message",
-            label: "Message",
+            label: { en: "Message", sw: "Ujumbe" },
             renderer: "textarea",
-            placeholder: "Tell us what's on your mind...",
+            placeholder: { en: "Tell us what's on your mind...", sw: "Tuambie unachofikiria..." },
             props: {
                 minRows: 4,
                 maxRows: 8
             },
             rules: {
-                required: "Message is required",
-                minLength: { value: 10, message: "Message must be at least 10 characters" },
-                maxLength: { value: 500, message: "Message cannot exceed 500 characters" }
+                required: { en: "Message is required", sw: "Ujumbe unahitajika" },
+                minLength: {
+                    value: 10,
+                    message: { en: "Message must be at least {min} characters", sw: "Ujumbe lazima uwe na angalau herufi {min}" }
+                },
+                maxLength: {
+                    value: 500,
+                    message: { en: "Message cannot exceed {max} characters", sw: "Ujumbe usizidi herufi {max}" }
+                }
             }
         },
         newsletter: {
             id: "newsletter",
-            label: "Subscribe to newsletter",
+            label: { en: "Subscribe to newsletter", sw: "Jiandikishe kupokea jarida" },
             renderer: "checkbox",
             defaultValue: false
         }
@@ -97,13 +111,24 @@ export const contactFormSchema: any = {
             ]
         }
     ]
-};
+});
+
+// Stand-in for a backend uniqueness check: resolves true when `value` is free
+const isUnique = (taken: string[]) =>
+    (value: string, _formValues: unknown, signal: AbortSignal) =>
+        new Promise<boolean>((resolve, reject) => {
+            const timer = setTimeout(() => resolve(!taken.includes(value.toLowerCase())), 600);
+            signal.addEventListener("abort", () => {
+                clearTimeout(timer);
+                reject(new DOMException("Aborted", "AbortError"));
+            });
+        });
 
 // ================================================================
 // EXAMPLE 2: USER REGISTRATION WITH CONDITIONAL FIELDS
 // ================================================================
 
-export const registrationFormSchema: any = {
+export const registrationFormSchema = defineForm({
     id: "user-registration",
     meta: {
         title: "Create Account",
@@ -148,11 +173,16 @@ export const registrationFormSchema: any = {
                 pattern: {
                     value: /^[A-Z0-9._%+-]+@[A-Z0-9.-]+\.[A-Z]{2,}$/i,
                     message: "Invalid email"
+                },
+                asyncValidate: {
+                    validate: isUnique(["taken@example.com", "admin@example.com"]),
+                    message: "This email is already registered"
                 }
             }
         },
         password: {
             id: "password",
+            sensitive: true,
             label: "Password",
             renderer: "text",
             inputType: "password",
@@ -167,13 +197,15 @@ export const registrationFormSchema: any = {
         },
         confirmPassword: {
             id: "confirmPassword",
+            sensitive: true,
             label: "Confirm Password",
             renderer: "text",
             inputType: "password",
             rules: {
                 required: "Please confirm your password",
-                validate: (value: any, formValues: any) =>
-                    value === formValues.password || "Passwords don't match"
+                validate: (value, formValues) =>
+                    value === formValues.password || "Passwords don't match",
+                deps: ["password"]
             }
         },
 
@@ -300,13 +332,50 @@ export const registrationFormSchema: any = {
             ]
         }
     ]
-};
+});
+
+// Stand-in for a paged search API over a large directory. A real form would use
+// createFetchOptionsLoader from ./remoteOptions instead.
+const searchDirectory = (records: { label: string; value: string }[], pageSize = 20) =>
+    (query: string, _formValues: unknown, { page, signal }: { page: number; signal: AbortSignal }) =>
+        new Promise<{ options: { label: string; value: string }[]; hasMore: boolean }>((resolve, reject) => {
+            const timer = setTimeout(() => {
+                const term = query.toLowerCase();
+                const matches = records.filter((record) => record.label.toLowerCase().includes(term));
+                const start = page * pageSize;
+                resolve({
+                    options: matches.slice(start, start + pageSize),
+                    hasMore: start + pageSize < matches.length
+                });
+            }, 350);
+            signal.addEventListener("abort", () => {
+                clearTimeout(timer);
+                reject(new DOMException("Aborted", "AbortError"));
+            });
+        });
+
+const FIRST_NAMES = ["Amina", "Brian", "Cynthia", "David", "Esther", "Felix", "Grace", "Hassan", "Irene", "James"];
+const LAST_NAMES = ["Otieno", "Wanjiku", "Mwangi", "Achieng", "Kamau", "Njeri", "Mutua", "Chebet", "Omondi", "Wafula"];
+
+const searchAgents = searchDirectory(
+    Array.from({ length: 2000 }, (_, index) => ({
+        label: `${FIRST_NAMES[index % 10]} ${LAST_NAMES[Math.floor(index / 10) % 10]} (AG-${String(index + 1).padStart(4, "0")})`,
+        value: `AG-${String(index + 1).padStart(4, "0")}`
+    }))
+);
+
+const searchSuppliers = searchDirectory(
+    Array.from({ length: 1500 }, (_, index) => ({
+        label: `${LAST_NAMES[index % 10]} ${["Traders", "Supplies", "Wholesalers", "Imports", "Distributors"][index % 5]} #${index + 1}`,
+        value: `SUP-${index + 1}`
+    }))
+);
 
 // ================================================================
 // EXAMPLE 3: AGENT UPDATE FORM (FROM YOUR EXAMPLE)
 // ================================================================
 
-export const agentUpdateSchema: any = {
+export const agentUpdateSchema = defineForm({
     id: "agent-update",
     meta: {
         title: "Update Agent",
@@ -338,6 +407,13 @@ export const agentUpdateSchema: any = {
                 required: "Agent type is required"
             }
         },
+        supervisor: {
+            id: "supervisor",
+            label: "Supervisor",
+            renderer: "select",
+            placeholder: "Search by name or agent code",
+            optionsLoader: searchAgents
+        },
         id_number: {
             id: "id_number",
             label: "ID Number",
@@ -371,6 +447,10 @@ export const agentUpdateSchema: any = {
                 pattern: {
                     value: /^[A-Z0-9]{11}$/,
                     message: "Invalid KRA PIN format"
+                },
+                asyncValidate: {
+                    validate: isUnique(["a123456789b", "p051234567x"]),
+                    message: "An agent with this KRA PIN already exists"
                 }
             }
         },
@@ -432,7 +512,8 @@ export const agentUpdateSchema: any = {
                         { kind: "field", fieldId: "agent_name" },
                         { kind: "field", fieldId: "agent_type" },
                         { kind: "field", fieldId: "id_number" },
-                        { kind: "field", fieldId: "kra_pin" }
+                        { kind: "field", fieldId: "kra_pin" },
+                        { kind: "field", fieldId: "supervisor" }
                     ]
                 }
             ]
@@ -462,18 +543,19 @@ export const agentUpdateSchema: any = {
             ]
         }
     ]
-};
+});
 
 // ================================================================
 // EXAMPLE 4: PRODUCT FORM WITH COMPLEX CONDITIONS
 // ================================================================
 
-export const productFormSchema: any = {
+export const productFormSchema = defineForm({
     id: "product-form",
     meta: {
         title: "Add Product",
         subtitle: "Fill in product details"
     },
+    rememberCollapsed: true,
     fields: {
         // Basic Info
         productName: {
@@ -496,6 +578,14 @@ export const productFormSchema: any = {
             },
             rules: { required: "Category is required" }
         },
+        supplier: {
+            id: "supplier",
+            label: "Supplier",
+            renderer: "select",
+            placeholder: "Search suppliers",
+            optionsLoader: searchSuppliers,
+            rules: { required: "Supplier is required" }
+        },
 
         // Electronics Fields
         brand: {
@@ -609,6 +699,15 @@ export const productFormSchema: any = {
                 max: { value: 90, message: "Discount cannot exceed 90%" }
             }
         },
+        finalPrice: {
+            id: "finalPrice",
+            label: "Final Price",
+            renderer: "number",
+            computed: {
+                expression: "round(price * (1 - (discountPercentage || 0) / 100), 2)",
+                format: (value: number, locale: string) => `KES ${value.toLocaleString(locale, { minimumFractionDigits: 2 })}`
+            }
+        },
         stock: {
             id: "stock",
             label: "Stock Quantity",
@@ -648,7 +747,8 @@ export const productFormSchema: any = {
                     spacing: "md",
                     children: [
                         { kind: "field", fieldId: "productName" },
-                        { kind: "field", fieldId: "category" }
+                        { kind: "field", fieldId: "category" },
+                        { kind: "field", fieldId: "supplier", colSpan: 2 }
                     ]
                 }
             ]
@@ -658,6 +758,7 @@ export const productFormSchema: any = {
             title: "Category-Specific Details",
             withDivider: true,
             collapsible: true,
+            hideWhenEmpty: true,
             children: [
                 {
                     kind: "grid",
@@ -686,7 +787,8 @@ export const productFormSchema: any = {
                         { kind: "field", fieldId: "price" },
                         { kind: "field", fieldId: "stock" },
                         { kind: "field", fieldId: "discountApplied" },
-                        { kind: "field", fieldId: "discountPercentage", colSpan: 2 }
+                        { kind: "field", fieldId: "discountPercentage", colSpan: 2 },
+                        { kind: "field", fieldId: "finalPrice" }
                     ]
                 }
             ]
@@ -706,14 +808,31 @@ export const productFormSchema: any = {
                 }
             ]
         }
+    ],
+    effects: [
+        {
+            on: "discountApplied",
+            if: { field: "discountApplied", op: "equals", value: false },
+            set: { discountPercentage: 0 }
+        }
     ]
-};
+});
 
 // ================================================================
 // EXAMPLE 5: ADDRESS FORM WITH COUNTRY-DEPENDENT FIELDS
 // ================================================================
 
-export const addressFormSchema: any = {
+// Stand-in for a regions API; the form only needs a function returning options
+const REGIONS_BY_COUNTRY: Record<string, string[]> = {
+    KE: ["Nairobi", "Mombasa", "Kisumu", "Nakuru", "Uasin Gishu"],
+    US: ["California", "Texas", "New York", "Florida", "Illinois"],
+    CA: ["Ontario", "Quebec", "British Columbia", "Alberta", "Manitoba"]
+};
+
+const loadRegions = (country: string): Promise<string[]> =>
+    new Promise((resolve) => setTimeout(() => resolve(REGIONS_BY_COUNTRY[country] ?? []), 400));
+
+export const addressFormSchema = defineForm({
     id: "address-form",
     meta: {
         title: "Shipping Address",
@@ -742,38 +861,24 @@ export const addressFormSchema: any = {
             rules: { required: "Country is required" }
         },
 
-        // Kenya-specific
-        county: {
-            id: "county",
-            label: "County",
+        // Regions are loaded for the selected country
+        region: {
+            id: "region",
+            label: "State / Province / County",
             renderer: "select",
             visibleWhen: {
                 field: "country",
-                op: "equals",
-                value: "KE"
+                op: "in",
+                value: ["KE", "US", "CA"]
             },
-            props: {
-                data: ["Nairobi", "Mombasa", "Kisumu", "Nakuru", "Eldoret"],
-                searchable: true
-            },
-            rules: { required: "County is required" }
-        },
-
-        // US-specific
-        state: {
-            id: "state",
-            label: "State",
-            renderer: "select",
-            visibleWhen: {
-                field: "country",
-                op: "equals",
-                value: "US"
+            optionsFrom: {
+                dependsOn: "country",
+                load: loadRegions
             },
             props: {
-                data: ["California", "Texas", "New York", "Florida", "Illinois"],
                 searchable: true
             },
-            rules: { required: "State is required" }
+            rules: { required: "Region is required" }
         },
 
         // UK-specific
@@ -861,8 +966,7 @@ export const addressFormSchema: any = {
                     spacing: "md",
                     children: [
                         { kind: "field", fieldId: "country" },
-                        { kind: "field", fieldId: "county" },
-                        { kind: "field", fieldId: "state" },
+                        { kind: "field", fieldId: "region" },
                         { kind: "field", fieldId: "postcode" }
                     ]
                 },
@@ -882,19 +986,26 @@ export const addressFormSchema: any = {
                 { kind: "field", fieldId: "setAsDefault" }
             ]
         }
+    ],
+    effects: [
+        // A region or postcode only makes sense for the country it was picked for
+        { on: "country", clear: ["region", "postcode"] }
     ]
-};
+});
 
 // ================================================================
 // EXAMPLE 6: JOB APPLICATION FORM
 // ================================================================
 
-export const jobApplicationSchema: any = {
+export const jobApplicationSchema = defineForm({
     id: "job-application",
+    version: 1,
     meta: {
         title: "Job Application",
         subtitle: "Software Engineer Position"
     },
+    layoutMode: "wizard",
+    saveDraft: true,
     fields: {
         // Personal
         firstName: {
@@ -1007,6 +1118,67 @@ export const jobApplicationSchema: any = {
                 ]
             }
         },
+        workHistory: {
+            id: "workHistory",
+            label: "Previous Roles",
+            renderer: "array",
+            props: { itemTitle: "Role", addLabel: "Add previous role" },
+            rules: {
+                maxItems: { value: 5, message: "List up to 5 previous roles" }
+            },
+            item: {
+                fields: {
+                    company: {
+                        id: "company",
+                        label: "Company",
+                        renderer: "text",
+                        rules: { required: "Required" }
+                    },
+                    role: {
+                        id: "role",
+                        label: "Role",
+                        renderer: "text",
+                        rules: { required: "Required" }
+                    },
+                    startDate: {
+                        id: "startDate",
+                        label: "Start Date",
+                        renderer: "date",
+                        rules: { required: "Required" }
+                    },
+                    endDate: {
+                        id: "endDate",
+                        label: "End Date",
+                        renderer: "date",
+                        visibleWhen: {
+                            field: "current",
+                            op: "equals",
+                            value: false
+                        },
+                        rules: { required: "Required" }
+                    },
+                    current: {
+                        id: "current",
+                        label: "I still work here",
+                        renderer: "checkbox"
+                    }
+                },
+                layout: [
+                    {
+                        kind: "grid",
+                        cols: 2,
+                        spacing: "md",
+                        children: [
+                            { kind: "field", fieldId: "company" },
+                            { kind: "field", fieldId: "role" },
+                            { kind: "field", fieldId: "startDate" },
+                            { kind: "field", fieldId: "endDate" },
+                            { kind: "field", fieldId: "current", colSpan: 2 }
+                        ]
+                    }
+                ]
+            }
+        },
 
         // Skills
         primarySkills: {
@@ -1025,8 +1197,8 @@ export const jobApplicationSchema: any = {
             },
             rules: {
                 required: "Select at least 3 skills",
-                validate: (value: any) =>
-                    (value && value.length >= 3) || "Select at least 3 skills"
+                validate: (value) =>
+                    (Array.isArray(value) && value.length >= 3) || "Select at least 3 skills"
             }
         },
 
@@ -1174,7 +1346,8 @@ export const jobApplicationSchema: any = {
                         { kind: "field", fieldId: "currentPosition" },
                         { kind: "field", fieldId: "noticePeriod", colSpan: 2 }
                     ]
-                }
+                },
+                { kind: "field", fieldId: "workHistory" }
             ]
         },
         {
@@ -1249,18 +1422,44 @@ export const jobApplicationSchema: any = {
             ]
         }
     ]
-};
+});
 
 // ================================================================
 // EXAMPLE 7: MULTI-CONDITION FORM
 // ================================================================
 
-export const insuranceQuoteSchema: any = {
+// Rough yearly premium, recomputed as the quote is filled in
+const estimatePremium = (values: Record<string, unknown>): number | null => {
+    const amount = (value: unknown) => Number(value) || 0;
+    switch (values.insuranceType) {
+        case "auto":
+            return 25000 + amount(values.vehicleAge) * 1500 +
+                (values.hasAccidents === "yes" ? Math.max(amount(values.accidentCount), 1) * 10000 : 0);
+        case "home":
+            return values.propertyValue
+                ? Math.round(amount(values.propertyValue) * 0.003 * (values.hasSecuritySystem ? 0.9 : 1))
+                : null;
+        case "life":
+            return values.age && values.coverageAmount
+                ? Math.round(amount(values.coverageAmount) * 0.004 *
+                    (amount(values.age) > 50 ? 2 : 1) * (values.smoker === "yes" ? 1.5 : 1))
+                : null;
+        case "health":
+            return values.familySize
+                ? amount(values.familySize) * 18000 * (values.preExistingConditions === "yes" ? 1.25 : 1)
+                : null;
+        default:
+            return null;
+    }
+};
+
+export const insuranceQuoteSchema = defineForm({
     id: "insurance-quote",
     meta: {
         title: "Get Insurance Quote",
         subtitle: "Fill in your details for a personalized quote"
     },
+    layoutMode: "wizard",
     fields: {
         insuranceType: {
             id: "insuranceType",
@@ -1282,11 +1481,6 @@ export const insuranceQuoteSchema: any = {
             id: "vehicleType",
             label: "Vehicle Type",
             renderer: "select",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "auto"
-            },
             props: {
                 data: ["Car", "Motorcycle", "Truck", "SUV"]
             },
@@ -1296,22 +1490,12 @@ export const insuranceQuoteSchema: any = {
             id: "vehicleAge",
             label: "Vehicle Age (years)",
             renderer: "number",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "auto"
-            },
             props: { min: 0, max: 50 }
         },
         hasAccidents: {
             id: "hasAccidents",
             label: "Any accidents in last 3 years?",
             renderer: "radio",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "auto"
-            },
             props: {
                 options: [
                     { label: "Yes", value: "yes" },
@@ -1323,32 +1507,82 @@ export const insuranceQuoteSchema: any = {
             id: "accidentCount",
             label: "Number of Accidents",
             renderer: "number",
-            visibleWhen: [
-                {
-                    field: "insuranceType",
-                    op: "equals",
-                    value: "auto"
-                },
-                {
-                    field: "hasAccidents",
-                    op: "equals",
-                    value: "yes"
-                }
-            ],
             props: { min: 1, max: 10 },
             rules: { required: "Required" }
         },
+        additionalDrivers: {
+            id: "additionalDrivers",
+            label: "Additional Drivers",
+            renderer: "array",
+            props: { itemTitle: "Driver", emptyText: "No additional drivers" },
+            rules: {
+                maxItems: { value: 4, message: "Up to 4 additional drivers" }
+            },
+            item: {
+                fields: {
+                    driverName: {
+                        id: "driverName",
+                        label: "Full Name",
+                        renderer: "text",
+                        rules: { required: "Required" }
+                    },
+                    driverAge: {
+                        id: "driverAge",
+                        label: "Age",
+                        renderer: "number",
+                        props: { min: 16, max: 100 },
+                        rules: {
+                            required: "Required",
+                            min: { value: 16, message: "Drivers must be at least 16" }
+                        }
+                    },
+                    relationship: {
+                        id: "relationship",
+                        label: "Relationship",
+                        renderer: "select",
+                        props: {
+                            data: [
+                                { label: "Spouse", value: "spouse" },
+                                { label: "Child", value: "child" },
+                                { label: "Parent", value: "parent" },
+                                { label: "Other", value: "other" }
+                            ]
+                        },
+                        rules: { required: "Required" }
+                    },
+                    relationshipOther: {
+                        id: "relationshipOther",
+                        label: "Please specify",
+                        renderer: "text",
+                        visibleWhen: {
+                            field: "relationship",
+                            op: "equals",
+                            value: "other"
+                        },
+                        rules: { required: "Required" }
+                    }
+                },
+                layout: [
+                    {
+                        kind: "grid",
+                        cols: 2,
+                        spacing: "md",
+                        children: [
+                            { kind: "field", fieldId: "driverName" },
+                            { kind: "field", fieldId: "driverAge" },
+                            { kind: "field", fieldId: "relationship" },
+                            { kind: "field", fieldId: "relationshipOther" }
+                        ]
+                    }
+                ]
+            }
+        },
 
         // Home Insurance Fields
         propertyType: {
             id: "propertyType",
             label: "Property Type",
             renderer: "select",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "home"
-            },
             props: {
                 data: ["House", "Apartment", "Condo", "Townhouse"]
             },
@@ -1358,11 +1592,6 @@ export const insuranceQuoteSchema: any = {
             id: "propertyValue",
             label: "Property Value (KES)",
             renderer: "number",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "home"
-            },
             props: {
                 min: 0,
                 step: 100000,
@@ -1374,11 +1603,6 @@ export const insuranceQuoteSchema: any = {
             id: "hasSecuritySystem",
             label: "Has Security System",
             renderer: "switch",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "home"
-            },
             defaultValue: false
         },
 
@@ -1387,11 +1611,6 @@ export const insuranceQuoteSchema: any = {
             id: "age",
             label: "Age",
             renderer: "number",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "life"
-            },
             props: { min: 18, max: 80 },
             rules: {
                 required: "Required",
@@ -1403,11 +1622,6 @@ export const insuranceQuoteSchema: any = {
             id: "smoker",
             label: "Do you smoke?",
             renderer: "radio",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "life"
-            },
             props: {
                 options: [
                     { label: "Yes", value: "yes" },
@@ -1420,32 +1634,34 @@ export const insuranceQuoteSchema: any = {
             id: "coverageAmount",
             label: "Coverage Amount (KES)",
             renderer: "select",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "life"
-            },
             props: {
                 data: [
-                    { label: "1,000,000", value: 1000000 },
-                    { label: "2,000,000", value: 2000000 },
-                    { label: "5,000,000", value: 5000000 },
-                    { label: "10,000,000", value: 10000000 }
+                    { label: "1,000,000", value: "1000000" },
+                    { label: "2,000,000", value: "2000000" },
+                    { label: "5,000,000", value: "5000000" },
+                    { label: "10,000,000", value: "10000000" }
                 ]
             },
             rules: { required: "Required" }
         },
+        medicalExamConsent: {
+            id: "medicalExamConsent",
+            label: "I agree to a medical examination",
+            renderer: "checkbox",
+            visibleWhen: {
+                any: [
+                    { field: "age", op: "gt", value: 50 },
+                    { field: "smoker", op: "equals", value: "yes" }
+                ]
+            },
+            rules: { required: "A medical examination is required for this cover" }
+        },
 
         // Health Insurance Fields
         familySize: {
             id: "familySize",
             label: "Number of People to Cover",
             renderer: "number",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "health"
-            },
             props: { min: 1, max: 10 },
             rules: { required: "Required" }
         },
@@ -1453,11 +1669,6 @@ export const insuranceQuoteSchema: any = {
             id: "preExistingConditions",
             label: "Any pre-existing conditions?",
             renderer: "radio",
-            visibleWhen: {
-                field: "insuranceType",
-                op: "equals",
-                value: "health"
-            },
             props: {
                 options: [
                     { label: "Yes", value: "yes" },
@@ -1470,21 +1681,30 @@ export const insuranceQuoteSchema: any = {
             id: "conditionDetails",
             label: "Please specify conditions",
             renderer: "textarea",
-            visibleWhen: [
-                {
-                    field: "insuranceType",
-                    op: "equals",
-                    value: "health"
-                },
-                {
-                    field: "preExistingConditions",
-                    op: "equals",
-                    value: "yes"
-                }
-            ],
+            visibleWhen: {
+                field: "preExistingConditions",
+                op: "equals",
+                value: "yes"
+            },
             props: { minRows: 3 },
             rules: { required: "Required" }
         },
+        estimatedPremium: {
+            id: "estimatedPremium",
+            label: "Estimated Yearly Premium",
+            renderer: "number",
+            placeholder: "Fill in the details above for an estimate",
+            visibleWhen: { field: "insuranceType", op: "isNotEmpty" },
+            computed: {
+                compute: estimatePremium,
+                deps: [
+                    "insuranceType", "vehicleAge", "hasAccidents", "accidentCount", "propertyValue",
+                    "hasSecuritySystem", "age", "smoker", "coverageAmount", "familySize", "preExistingConditions"
+                ],
+                submit: true,
+                format: (value: number, locale: string) => `KES ${value.toLocaleString(locale)}`
+            }
+        },
 
         // Common Fields
         fullName: {
@@ -1527,34 +1747,56 @@ export const insuranceQuoteSchema: any = {
             kind: "section",
             title: "Details",
             withDivider: true,
+            hideWhenEmpty: true,
             children: [
                 {
                     kind: "grid",
                     cols: 2,
                     spacing: "md",
+                    visibleWhen: { field: "insuranceType", op: "equals", value: "auto" },
                     children: [
-                        // Auto fields
                         { kind: "field", fieldId: "vehicleType" },
                         { kind: "field", fieldId: "vehicleAge" },
-                        { kind: "field", fieldId: "hasAccidents", colSpan: 2 },
+                        { kind: "field", fieldId: "hasAccidents" },
                         { kind: "field", fieldId: "accidentCount" },
-
-                        // Home fields
+                        { kind: "field", fieldId: "additionalDrivers", colSpan: 2 }
+                    ]
+                },
+                {
+                    kind: "grid",
+                    cols: 2,
+                    spacing: "md",
+                    visibleWhen: { field: "insuranceType", op: "equals", value: "home" },
+                    children: [
                         { kind: "field", fieldId: "propertyType" },
                         { kind: "field", fieldId: "propertyValue" },
-                        { kind: "field", fieldId: "hasSecuritySystem", colSpan: 2 },
-
-                        // Life fields
+                        { kind: "field", fieldId: "hasSecuritySystem", colSpan: 2 }
+                    ]
+                },
+                {
+                    kind: "grid",
+                    cols: 2,
+                    spacing: "md",
+                    visibleWhen: { field: "insuranceType", op: "equals", value: "life" },
+                    children: [
                         { kind: "field", fieldId: "age" },
                         { kind: "field", fieldId: "smoker" },
                         { kind: "field", fieldId: "coverageAmount", colSpan: 2 },
-
-                        // Health fields
+                        { kind: "field", fieldId: "medicalExamConsent", colSpan: 2 }
+                    ]
+                },
+                {
+                    kind: "grid",
+                    cols: 2,
+                    spacing: "md",
+                    visibleWhen: { field: "insuranceType", op: "equals", value: "health" },
+                    children: [
                         { kind: "field", fieldId: "familySize" },
                         { kind: "field", fieldId: "preExistingConditions" },
                         { kind: "field", fieldId: "conditionDetails", colSpan: 2 }
                     ]
-                }
+                },
+                { kind: "field", fieldId: "estimatedPremium" }
             ]
         },
         {
@@ -1564,15 +1806,24 @@ export const insuranceQuoteSchema: any = {
             children: [
                 {
                     kind: "grid",
-                    cols: 3,
+                    cols: { base: 1, md: 2, lg: 3 },
                     spacing: "md",
                     children: [
-                        { kind: "field", fieldId: "fullName" },
+                        { kind: "field", fieldId: "fullName", colSpan: { md: 2, lg: 1 } },
                         { kind: "field", fieldId: "email" },
                         { kind: "field", fieldId: "phone" }
                     ]
                 }
             ]
         }
+    ],
+    effects: [
+        // The count only applies after a "yes"; answering "no" also wipes an earlier count
+        {
+            on: "hasAccidents",
+            if: { field: "hasAccidents", op: "notEquals", value: "yes" },
+            clear: ["accidentCount"],
+            disable: ["accidentCount"]
+        }
     ]
-};
\ No newline at end of file
+});
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { FormSchemaError, hydrateFormSchema, validateFormSchema } from './jsonSchema';
+
+const createJson = (overrides: Record<string, unknown> = {}) => ({
+  id: 'signup',
+  meta: { title: 'Sign up' },
+  fields: {
+    password: { id: 'password', label: 'Password', renderer: 'text' },
+    confirm: {
+      id: 'confirm',
+      label: 'Confirm',
+      renderer: 'text',
+      rules: {
+        pattern: { value: '^\\S+$', message: 'No spaces' },
+        validate: { name: 'equalsField', params: { field: 'password' }, message: 'Passwords differ' },
+      },
+    },
+    total: { id: 'total', label: 'Total', renderer: 'text', computed: { compute: { name: 'double', params: { field: 'password' } } } },
+  },
+  layout: [
+    { kind: 'field', fieldId: 'password' },
+    { kind: 'field', fieldId: 'confirm' },
+  ],
+  ...overrides,
+});
+
+const computations = { double: (values: Record<string, unknown>) => Number(values.password) * 2 };
+
+describe('validateFormSchema', () => {
+  it('accepts a valid schema', () => {
+    expect(validateFormSchema(createJson(), { computations })).toMatchObject({ success: true });
+  });
+
+  it('reports shape errors with their paths', () => {
+    const result = validateFormSchema(createJson({ layoutMode: 'tabs', layout: [{ kind: 'field' }] }), { computations });
+    expect(result.success).toBe(false);
+    expect(!result.success && result.issues.map((issue) => issue.path)).toEqual(
+      expect.arrayContaining(['layoutMode', 'layout[0].fieldId'])
+    );
+  });
+
+  it('reports unknown references, renderers and registry names', () => {
+    const json = createJson({
+      fields: {
+        a: { id: 'b', label: 'A', renderer: 'slider', visibleWhen: { field: 'missing', op: 'equals', value: 1 } },
+        c: { id: 'c', label: 'C', renderer: 'text', rules: { validate: { name: 'nope' } } },
+      },
+      layout: [{ kind: 'field', fieldId: 'ghost' }],
+      effects: [{ on: 'a', clear: ['gone'] }],
+    });
+    const result = validateFormSchema(json);
+    expect(!result.success && result.issues).toEqual(
+      expect.arrayContaining([
+        { path: 'fields.a.id', message: 'Field id "b" does not match its key "a"' },
+        { path: 'fields.a.renderer', message: 'Unknown renderer "slider"' },
+        { path: 'fields.a.visibleWhen.field', message: 'Unknown field "missing"' },
+        { path: 'fields.c.rules.validate.name', message: 'Unknown validator "nope"' },
+        { path: 'layout[0].fieldId', message: 'Unknown field "ghost"' },
+        { path: 'effects[0].clear[0]', message: 'Unknown field "gone"' },
+      ])
+    );
+  });
+
+  it('reports bad expressions and computed cycles', () => {
+    const json = createJson({
+      fields: {
+        a: { id: 'a', label: 'A', renderer: 'text', computed: { expression: 'b +' } },
+        b: { id: 'b', label: 'B', renderer: 'text', computed: { expression: 'c * 2' } },
+        c: { id: 'c', label: 'C', renderer: 'text', computed: { expression: 'b + 1' } },
+      },
+      layout: [],
+    });
+    const result = validateFormSchema(json);
+    const messages = !result.success ? result.issues.map((issue) => `${issue.path}: ${issue.message}`) : [];
+    expect(messages).toContain('fields.b.computed: Computed fields depend on each other in a cycle: b → c → b');
+    expect(messages.some((message) => message.startsWith('fields.a.computed.expression: '))).toBe(true);
+  });
+});
+
+describe('hydrateFormSchema', () => {
+  it('throws a FormSchemaError listing every issue', () => {
+    const json = createJson({ layout: [{ kind: 'field', fieldId: 'ghost' }, { kind: 'field', fieldId: 'phantom' }] });
+    expect(() => hydrateFormSchema(json, { computations })).toThrow(FormSchemaError);
+    expect(() => hydrateFormSchema(json, { computations })).toThrow(
+      /layout\[0\]\.fieldId: Unknown field "ghost"\n {2}layout\[1\]\.fieldId: Unknown field "phantom"/
+    );
+  });
+
+  it('turns patterns, named validators and computations into code', () => {
+    const schema = hydrateFormSchema(createJson(), { computations });
+    const rules = schema.fields.confirm.rules!;
+
+    expect(rules.pattern!.value).toEqual(/^\S+$/);
+    expect(rules.validate!('secret', { password: 'secret' })).toBe(true);
+    expect(rules.validate!('other', { password: 'secret' })).toBe('Passwords differ');
+    expect(schema.fields.total.computed!.compute!({ password: '21' })).toBe(42);
+  });
+});
@@ -0,0 +1,501 @@
+/**
+ * ================================================================
+ * SERIALIZABLE FORM SCHEMAS
+ * ================================================================
+ *
+ * Pure-JSON variant of FormSchema that can be stored in a database or
+ * served from an API:
+ * - rules.pattern: regex source string plus optional flags
+ * - rules.validate: name of a validator looked up in a registry
+ * - optionsFrom: declarative `map` only; async loaders are code, not data
+ * - computed.compute: name of a function looked up in a registry; no `format`
+ * - asyncValidate and optionsLoader are not available
+ * - text (labels, placeholders, titles, messages) is a string or a `{ en, sw }` map
+ *
+ * Usage:
+ * const validators = { ...defaultValidators, isKraPin };
+ * const result = validateFormSchema(json, { validators }); // { success, issues }
+ * const schema = hydrateFormSchema(json, { validators, computations: { estimatePremium } }); // throws FormSchemaError
+ *
+ * <DynamicForm schema={schema} onSubmit={handleSubmit} />
+ */
+
+import { z } from 'zod';
+import { compileExpression, sortDependencies } from '../Components/expressions';
+import type {
+  Breakpoint,
+  ComputedValue,
+  FieldDefinition,
+  FieldEffect,
+  FieldRenderer,
+  FormSchema,
+  LayoutKind,
+  LayoutNode,
+  OptionSource,
+  ValidationRules,
+  VisibilityOperator,
+  VisibilityRule,
+} from '../Components/Dynamic';
+import type { LocalizedText } from '../Components/i18n';
+
+// ================================================================
+// TYPES
+// ================================================================
+
+export type NamedValidator = (
+  value: unknown,
+  formValues: Record<string, unknown>,
+  params: Record<string, unknown>
+) => boolean | string;
+
+export type ValidatorRegistry = Record<string, NamedValidator>;
+
+export type NamedComputation = (formValues: Record<string, unknown>, params: Record<string, unknown>) => unknown;
+
+export type ComputationRegistry = Record<string, NamedComputation>;
+
+export interface JsonValidationRules extends Omit<ValidationRules, 'pattern' | 'validate' | 'asyncValidate'> {
+  pattern?: { value: string; flags?: string; message: LocalizedText };
+  /** `message` replaces whatever the validator returns when it fails */
+  validate?: { name: string; params?: Record<string, unknown>; message?: LocalizedText };
+}
+
+export interface JsonComputedValue extends Omit<ComputedValue, 'compute' | 'format'> {
+  compute?: { name: string; params?: Record<string, unknown> };
+}
+
+export interface JsonFieldDefinition extends Omit<FieldDefinition, 'rules' | 'item' | 'optionsFrom' | 'computed'> {
+  rules?: JsonValidationRules;
+  optionsFrom?: Omit<OptionSource, 'load'>;
+  computed?: JsonComputedValue;
+  item?: { fields: Record<string, JsonFieldDefinition>; layout?: LayoutNode[] };
+}
+
+export interface JsonFormSchema extends Omit<FormSchema, 'fields'> {
+  fields: Record<string, JsonFieldDefinition>;
+}
+
+export interface SchemaOptions {
+  validators?: ValidatorRegistry;
+  computations?: ComputationRegistry;
+  /** Custom renderer names accepted in addition to the built-in ones */
+  renderers?: string[];
+}
+
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type SchemaValidationResult =
+  | { success: true; schema: JsonFormSchema }
+  | { success: false; issues: SchemaIssue[] };
+
+export class FormSchemaError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Invalid form schema:\n${issues.map((issue) => `  ${issue.path}: ${issue.message}`).join('\n')}`);
+    this.name = 'FormSchemaError';
+    this.issues = issues;
+  }
+}
+
+// ================================================================
+// BUILT-IN VALIDATORS
+// ================================================================
+
+export const defaultValidators: ValidatorRegistry = {
+  equalsField: (value, formValues, params) =>
+    value === formValues[String(params.field)] || `Must match ${String(params.field)}`,
+  minItems: (value, _formValues, params) =>
+    (Array.isArray(value) && value.length >= Number(params.min)) || `Select at least ${Number(params.min)}`,
+};
+
+// ================================================================
+// META-SCHEMA
+// ================================================================
+
+const FIELD_RENDERERS = [
+  'text', 'textarea', 'select', 'multiselect', 'number', 'date', 'checkbox', 'radio', 'switch', 'file', 'array',
+] as const satisfies readonly FieldRenderer[];
+
+const VISIBILITY_OPERATORS = [
+  'equals', 'notEquals', 'in', 'gt', 'gte', 'lt', 'lte', 'contains', 'isEmpty', 'isNotEmpty', 'matches',
+] as const satisfies readonly VisibilityOperator[];
+
+const LAYOUT_KINDS = ['section', 'step', 'grid', 'stack', 'field'] as const satisfies readonly LayoutKind[];
+
+const BREAKPOINTS = ['base', 'sm', 'md', 'lg', 'xl'] as const satisfies readonly Breakpoint[];
+
+/** A positive whole number, or one per breakpoint */
+const responsiveCount = z.union([
+  z.number().int().positive(),
+  z.partialRecord(z.enum(BREAKPOINTS), z.number().int().positive()),
+]);
+
+/** LocalizedText: a string, or text keyed by locale */
+const localizedText = z.union([z.string(), z.record(z.string(), z.string())]);
+
+const messageRule = z.strictObject({ value: z.number(), message: localizedText });
+
+const visibilityConditionSchema = z.strictObject({
+  field: z.string().min(1),
+  op: z.enum(VISIBILITY_OPERATORS),
+  value: z.unknown().optional(),
+  flags: z.string().optional(),
+});
+
+const visibilityRuleSchema: z.ZodType<VisibilityRule> = z.lazy(() =>
+  z.union([
+    visibilityConditionSchema,
+    z.array(visibilityRuleSchema),
+    z.strictObject({ all: z.array(visibilityRuleSchema) }),
+    z.strictObject({ any: z.array(visibilityRuleSchema) }),
+    z.strictObject({ not: visibilityRuleSchema }),
+  ])
+);
+
+const rulesSchema = z.strictObject({
+  required: z.union([localizedText, z.boolean()]).optional(),
+  minLength: messageRule.optional(),
+  maxLength: messageRule.optional(),
+  min: messageRule.optional(),
+  max: messageRule.optional(),
+  pattern: z.strictObject({
+    value: z.string(),
+    flags: z.string().regex(/^[dgimsuvy]*$/, 'Unknown regex flag').optional(),
+    message: localizedText,
+  }).optional(),
+  validate: z.strictObject({
+    name: z.string().min(1),
+    params: z.record(z.string(), z.unknown()).optional(),
+    message: localizedText.optional(),
+  }).optional(),
+  deps: z.array(z.string()).optional(),
+  minItems: messageRule.optional(),
+  maxItems: messageRule.optional(),
+});
+
+const computedSchema = z.strictObject({
+  expression: z.string().min(1).optional(),
+  compute: z.strictObject({
+    name: z.string().min(1),
+    params: z.record(z.string(), z.unknown()).optional(),
+  }).optional(),
+  deps: z.array(z.string()).optional(),
+  submit: z.boolean().optional(),
+}).refine((computed) => !!(computed.expression || computed.compute), 'Computed fields need an expression or a compute function');
+
+const selectOptionSchema = z.union([z.string(), z.strictObject({ label: localizedText, value: z.string() })]);
+
+const optionSourceSchema = z.strictObject({
+  dependsOn: z.string().min(1),
+  map: z.record(z.string(), z.array(selectOptionSchema)),
+  placeholder: localizedText.optional(),
+});
+
+// Unknown keys are passed through on fields and layout nodes so extensions
+// survive validation; the known keys are still checked precisely.
+const fieldSchema: z.ZodType<JsonFieldDefinition> = z.lazy(() =>
+  z.looseObject({
+    id: z.string().min(1),
+    label: localizedText,
+    renderer: z.string().min(1),
+    inputType: z.string().optional(),
+    placeholder: localizedText.optional(),
+    defaultValue: z.unknown().optional(),
+    props: z.record(z.string(), z.unknown()).optional(),
+    rules: rulesSchema.optional(),
+    visibleWhen: visibilityRuleSchema.optional(),
+    optionsFrom: optionSourceSchema.optional(),
+    sensitive: z.boolean().optional(),
+    computed: computedSchema.optional(),
+    item: z.strictObject({
+      fields: z.record(z.string(), fieldSchema),
+      layout: z.array(layoutNodeSchema).optional(),
+    }).optional(),
+  })
+);
+
+const layoutNodeSchema: z.ZodType<LayoutNode> = z.lazy(() =>
+  z.looseObject({
+    kind: z.enum(LAYOUT_KINDS),
+    id: z.string().optional(),
+    fieldId: z.string().optional(),
+    colSpan: responsiveCount.optional(),
+    title: localizedText.optional(),
+    subtitle: localizedText.optional(),
+    withDivider: z.boolean().optional(),
+    collapsible: z.boolean().optional(),
+    defaultCollapsed: z.boolean().optional(),
+    cols: responsiveCount.optional(),
+    spacing: z.enum(['sm', 'md', 'lg']).optional(),
+    children: z.array(layoutNodeSchema).optional(),
+    visibleWhen: visibilityRuleSchema.optional(),
+    hideWhenEmpty: z.boolean().optional(),
+  }).refine((node) => node.kind !== 'field' || !!node.fieldId, {
+    path: ['fieldId'],
+    message: 'Field layout nodes require a fieldId',
+  })
+);
+
+const fieldIdList = z.array(z.string().min(1));
+
+const effectSchema = z.strictObject({
+  on: z.union([z.string().min(1), fieldIdList]).optional(),
+  if: visibilityRuleSchema.optional(),
+  set: z.record(z.string(), z.unknown()).optional(),
+  clear: fieldIdList.optional(),
+  disable: fieldIdList.optional(),
+  enable: fieldIdList.optional(),
+});
+
+const baseFormSchema = z.looseObject({
+  id: z.string().min(1),
+  meta: z.looseObject({
+    title: localizedText,
+    subtitle: localizedText.optional(),
+    description: localizedText.optional(),
+  }),
+  fields: z.record(z.string(), fieldSchema),
+  layout: z.array(layoutNodeSchema),
+  hiddenFields: z.enum(['omit', 'clear', 'validate']).optional(),
+  layoutMode: z.enum(['single', 'wizard']).optional(),
+  rememberCollapsed: z.boolean().optional(),
+  version: z.union([z.string(), z.number()]).optional(),
+  saveDraft: z.union([
+    z.boolean(),
+    z.strictObject({ debounceMs: z.number().int().nonnegative().optional() }),
+  ]).optional(),
+  effects: z.array(effectSchema).optional(),
+  breakpoints: z.strictObject({
+    sm: z.number().nonnegative().optional(),
+    md: z.number().nonnegative().optional(),
+    lg: z.number().nonnegative().optional(),
+    xl: z.number().nonnegative().optional(),
+  }).optional(),
+});
+
+type Path = (string | number)[];
+
+/**
+ * Builds the meta-schema for JSON form schemas. Structural checks come from the
+ * Zod shapes above; cross-references (layout → fields, visibleWhen, optionsFrom,
+ * computed values and effects → fields, validator and computation names → registries,
+ * renderer names → built-ins plus `renderers`) and computed-field cycles are
+ * checked here once the shape is known to be valid.
+ */
+export const createFormSchemaValidator = (
+  validators: ValidatorRegistry = defaultValidators,
+  renderers: string[] = [],
+  computations: ComputationRegistry = {}
+) =>
+  baseFormSchema.superRefine((schema, ctx) => {
+    const rendererNames = new Set<string>([...FIELD_RENDERERS, ...renderers]);
+    const report = (path: Path, message: string) => ctx.addIssue({ code: 'custom', path, message });
+
+    // Array rows are their own scope: their layout and conditions refer to row fields.
+    const checkScope = (
+      fields: Record<string, JsonFieldDefinition>,
+      layout: LayoutNode[] | undefined,
+      path: Path,
+      effects: FieldEffect[] = []
+    ) => {
+      const fieldIds = new Set(Object.keys(fields));
+      const computedDeps: Record<string, string[]> = {};
+
+      const checkFieldIds = (ids: string[] | undefined, idsPath: Path) =>
+        ids?.forEach((fieldId, index) => {
+          if (!fieldIds.has(fieldId)) report([...idsPath, index], `Unknown field "${fieldId}"`);
+        });
+
+      const checkRule = (rule: VisibilityRule, rulePath: Path) => {
+        if (Array.isArray(rule)) return rule.forEach((child, index) => checkRule(child, [...rulePath, index]));
+        if ('all' in rule) return rule.all.forEach((child, index) => checkRule(child, [...rulePath, 'all', index]));
+        if ('any' in rule) return rule.any.forEach((child, index) => checkRule(child, [...rulePath, 'any', index]));
+        if ('not' in rule) return checkRule(rule.not, [...rulePath, 'not']);
+
+        if (!fieldIds.has(rule.field)) report([...rulePath, 'field'], `Unknown field "${rule.field}"`);
+        if (rule.op === 'matches') {
+          try {
+            new RegExp(String(rule.value), rule.flags);
+          } catch (error) {
+            report([...rulePath, 'value'], (error as Error).message);
+          }
+        }
+      };
+
+      Object.entries(fields).forEach(([key, field]) => {
+        const fieldPath: Path = [...path, 'fields', key];
+
+        if (field.id !== key) {
+          report([...fieldPath, 'id'], `Field id "${field.id}" does not match its key "${key}"`);
+        }
+        if (!rendererNames.has(field.renderer)) {
+          report([...fieldPath, 'renderer'], `Unknown renderer "${field.renderer}"`);
+        }
+
+        if (field.visibleWhen) checkRule(field.visibleWhen, [...fieldPath, 'visibleWhen']);
+        if (field.optionsFrom && !fieldIds.has(field.optionsFrom.dependsOn)) {
+          report([...fieldPath, 'optionsFrom', 'dependsOn'], `Unknown field "${field.optionsFrom.dependsOn}"`);
+        }
+
+        const rules = field.rules;
+        if (rules?.pattern) {
+          try {
+            new RegExp(rules.pattern.value, rules.pattern.flags);
+          } catch (error) {
+            report([...fieldPath, 'rules', 'pattern', 'value'], (error as Error).message);
+          }
+        }
+        if (rules?.validate && !validators[rules.validate.name]) {
+          report([...fieldPath, 'rules', 'validate', 'name'], `Unknown validator "${rules.validate.name}"`);
+        }
+        rules?.deps?.forEach((dep, index) => {
+          if (!fieldIds.has(dep)) report([...fieldPath, 'rules', 'deps', index], `Unknown field "${dep}"`);
+        });
+
+        const computed = field.computed;
+        if (computed?.compute) {
+          if (!computations[computed.compute.name]) {
+            report([...fieldPath, 'computed', 'compute', 'name'], `Unknown computation "${computed.compute.name}"`);
+          }
+          computed.deps?.forEach((dep, index) => {
+            if (!fieldIds.has(dep)) report([...fieldPath, 'computed', 'deps', index], `Unknown field "${dep}"`);
+          });
+          computedDeps[key] = computed.deps ?? [];
+        } else if (computed?.expression) {
+          try {
+            const { deps } = compileExpression(computed.expression);
+            deps.filter((dep) => !fieldIds.has(dep)).forEach((dep) => {
+              report([...fieldPath, 'computed', 'expression'], `Unknown field "${dep}"`);
+            });
+            computedDeps[key] = deps;
+          } catch (error) {
+            report([...fieldPath, 'computed', 'expression'], (error as Error).message);
+          }
+        }
+
+        if (field.renderer === 'array') {
+          if (field.item) checkScope(field.item.fields, field.item.layout, [...fieldPath, 'item']);
+          else report([...fieldPath, 'item'], 'Array fields require an item definition');
+        }
+      });
+
+      const checkLayout = (nodes: LayoutNode[], nodesPath: Path) => {
+        nodes.forEach((node, index) => {
+          const nodePath = [...nodesPath, index];
+          if (node.visibleWhen) checkRule(node.visibleWhen, [...nodePath, 'visibleWhen']);
+          if (node.kind === 'field' && node.fieldId && !fieldIds.has(node.fieldId)) {
+            report([...nodePath, 'fieldId'], `Unknown field "${node.fieldId}"`);
+          }
+          if (node.children) checkLayout(node.children, [...nodePath, 'children']);
+        });
+      };
+      if (layout) checkLayout(layout, [...path, 'layout']);
+
+      effects.forEach((effect, index) => {
+        const effectPath: Path = [...path, 'effects', index];
+        if (Array.isArray(effect.on)) checkFieldIds(effect.on, [...effectPath, 'on']);
+        else if (effect.on && !fieldIds.has(effect.on)) report([...effectPath, 'on'], `Unknown field "${effect.on}"`);
+        if (effect.if) checkRule(effect.if, [...effectPath, 'if']);
+        Object.keys(effect.set ?? {}).forEach((fieldId) => {
+          if (!fieldIds.has(fieldId)) report([...effectPath, 'set', fieldId], `Unknown field "${fieldId}"`);
+        });
+        checkFieldIds(effect.clear, [...effectPath, 'clear']);
+        checkFieldIds(effect.disable, [...effectPath, 'disable']);
+        checkFieldIds(effect.enable, [...effectPath, 'enable']);
+        if ((effect.set || effect.clear) && !effect.on) {
+          report(effectPath, 'Effects that set or clear fields need an `on` field');
+        }
+      });
+
+      const { cycle } = sortDependencies(computedDeps);
+      if (cycle) {
+        report([...path, 'fields', cycle[0], 'computed'], `Computed fields depend on each other in a cycle: ${cycle.join(' → ')}`);
+      }
+    };
+
+    checkScope(schema.fields, schema.layout, [], schema.effects);
+  });
+
+const formatPath = (path: PropertyKey[]): string =>
+  path.reduce<string>((acc, segment) => {
+    if (typeof segment === 'number') return `${acc}[${segment}]`;
+    return acc ? `${acc}.${String(segment)}` : String(segment);
+  }, '') || '(root)';
+
+// ================================================================
+// PUBLIC API
+// ================================================================
+
+export const validateFormSchema = (
+  input: unknown,
+  options: SchemaOptions = {}
+): SchemaValidationResult => {
+  const result = createFormSchemaValidator(options.validators, options.renderers, options.computations).safeParse(input);
+  if (result.success) return { success: true, schema: result.data as JsonFormSchema };
+  return {
+    success: false,
+    issues: result.error.issues.map((issue) => ({ path: formatPath(issue.path), message: issue.message })),
+  };
+};
+
+const hydrateRules = (rules: JsonValidationRules, validators: ValidatorRegistry): ValidationRules => {
+  const { pattern, validate, ...rest } = rules;
+  const hydrated: ValidationRules = { ...rest };
+
+  if (pattern) {
+    hydrated.pattern = { value: new RegExp(pattern.value, pattern.flags), message: pattern.message };
+  }
+  if (validate) {
+    const validator = validators[validate.name];
+    hydrated.validate = (value, formValues) => {
+      const result = validator(value, formValues, validate.params ?? {});
+      if (result === true) return true;
+      return validate.message ?? (typeof result === 'string' ? result : 'validation.invalid');
+    };
+  }
+  return hydrated;
+};
+
+const hydrateComputed = (computed: JsonComputedValue, computations: ComputationRegistry): ComputedValue => {
+  const { compute, ...rest } = computed;
+  if (!compute) return rest;
+  const computation = computations[compute.name];
+  return { ...rest, compute: (formValues) => computation(formValues, compute.params ?? {}) };
+};
+
+const hydrateFields = (
+  jsonFields: Record<string, JsonFieldDefinition>,
+  validators: ValidatorRegistry,
+  computations: ComputationRegistry
+): Record<string, FieldDefinition> => {
+  const fields: Record<string, FieldDefinition> = {};
+  Object.entries(jsonFields).forEach(([fieldId, field]) => {
+    const { rules, item, computed, ...rest } = field;
+    fields[fieldId] = {
+      ...rest,
+      rules: rules && hydrateRules(rules, validators),
+      computed: computed && hydrateComputed(computed, computations),
+      item: item && { ...item, fields: hydrateFields(item.fields, validators, computations) },
+    };
+  });
+  return fields;
+};
+
+/**
+ * Validates a JSON form schema and turns it into a FormSchema that DynamicForm
+ * can render. Throws FormSchemaError listing every problem when the input is invalid.
+ */
+export const hydrateFormSchema = (
+  input: unknown,
+  options: SchemaOptions = {}
+): FormSchema => {
+  const validators = options.validators ?? defaultValidators;
+  const result = validateFormSchema(input, { ...options, validators });
+  if (!result.success) throw new FormSchemaError(result.issues);
+
+  return { ...result.schema, fields: hydrateFields(result.schema.fields, validators, options.computations ?? {}) };
+};
@@ -0,0 +1,134 @@
+import { cleanup, fireEvent, render, screen, waitFor } from '@testing-library/react';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DynamicForm, type FormSchema } from '../Components/Dynamic';
+import { createFetchOptionsLoader } from './remoteOptions';
+
+interface Agent {
+  id: string;
+  name: string;
+}
+
+const loadAgents = createFetchOptionsLoader({
+  url: '/api/agents',
+  toOption: (agent: Agent) => ({ label: agent.name, value: agent.id }),
+  params: (formValues) => ({ region: String(formValues.region) }),
+});
+
+const schema: FormSchema = {
+  id: 'remote-options',
+  meta: { title: 'Remote options' },
+  fields: {
+    region: { id: 'region', label: 'Region', renderer: 'select', defaultValue: 'North', props: { data: ['North', 'South'] } },
+    agent: { id: 'agent', label: 'Agent', renderer: 'select', optionsLoader: loadAgents, props: { debounceMs: 20 } },
+  },
+  layout: [
+    { kind: 'field', fieldId: 'region' },
+    { kind: 'field', fieldId: 'agent' },
+  ],
+};
+
+/** A fetch whose responses are released by the test, in any order */
+const createFetch = () => {
+  const pending: { url: URL; resolve: (agents: Agent[]) => void }[] = [];
+  const fetchMock = vi.fn<typeof fetch>(
+    (input) =>
+      new Promise<Response>((resolve) => {
+        pending.push({
+          url: new URL(String(input), 'http://localhost'),
+          resolve: (agents) => resolve(new Response(JSON.stringify(agents))),
+        });
+      })
+  );
+  const requests = () => pending.map(({ url }) => Object.fromEntries(url.searchParams));
+  const respond = (index: number, names: string[]) =>
+    pending[index].resolve(names.map((name) => ({ id: name.toLowerCase(), name })));
+  return { fetchMock, requests, respond };
+};
+
+let server: ReturnType<typeof createFetch>;
+
+beforeEach(() => {
+  server = createFetch();
+  vi.stubGlobal('fetch', server.fetchMock);
+});
+
+afterEach(() => {
+  cleanup();
+  vi.unstubAllGlobals();
+});
+
+const search = (text: string) => fireEvent.change(screen.getByRole('combobox', { name: 'Agent' }), { target: { value: text } });
+
+describe('createFetchOptionsLoader', () => {
+  it('debounces typing into one request per settled query', async () => {
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    fireEvent.focus(screen.getByRole('combobox', { name: 'Agent' }));
+    await waitFor(() => expect(server.requests()).toHaveLength(1));
+
+    search('a');
+    search('al');
+    search('ali');
+    await waitFor(() => expect(server.requests()).toHaveLength(2));
+    await new Promise((resolve) => setTimeout(resolve, 50));
+
+    expect(server.requests()).toEqual([
+      { region: 'North', q: '', page: '0', pageSize: '20' },
+      { region: 'North', q: 'ali', page: '0', pageSize: '20' },
+    ]);
+  });
+
+  it('reuses cached results for a query, but searches again when its params change', async () => {
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    const agent = screen.getByRole('combobox', { name: 'Agent' });
+    fireEvent.focus(agent);
+    await waitFor(() => expect(server.requests()).toHaveLength(1));
+    server.respond(0, ['Amina']);
+    expect(await screen.findByRole('option', { name: 'Amina' })).toBeTruthy();
+
+    search('am');
+    await waitFor(() => expect(server.requests()).toHaveLength(2));
+    server.respond(1, ['Amina', 'Amos']);
+    expect(await screen.findByRole('option', { name: 'Amos' })).toBeTruthy();
+    search('');
+    await waitFor(() => expect(screen.queryByRole('option', { name: 'Amos' })).toBeNull());
+    expect(screen.getByRole('option', { name: 'Amina' })).toBeTruthy();
+    expect(server.requests()).toHaveLength(2);
+
+    fireEvent.blur(agent);
+    fireEvent.change(screen.getByRole('combobox', { name: 'Region' }), { target: { value: 'South' } });
+    fireEvent.focus(agent);
+    await waitFor(() => expect(server.requests()).toHaveLength(3));
+    expect(server.requests()[2]).toMatchObject({ region: 'South', q: '' });
+    server.respond(2, ['Baraka']);
+    expect(await screen.findByRole('option', { name: 'Baraka' })).toBeTruthy();
+    expect(screen.queryByRole('option', { name: 'Amina' })).toBeNull();
+  });
+
+  it('keeps results per form instance', async () => {
+    const { unmount } = render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    fireEvent.focus(screen.getByRole('combobox', { name: 'Agent' }));
+    await waitFor(() => expect(server.requests()).toHaveLength(1));
+    server.respond(0, ['Amina']);
+    expect(await screen.findByRole('option', { name: 'Amina' })).toBeTruthy();
+    unmount();
+
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    fireEvent.focus(screen.getByRole('combobox', { name: 'Agent' }));
+    await waitFor(() => expect(server.requests()).toHaveLength(2));
+  });
+
+  it('discards a response that arrives after the query moved on', async () => {
+    render(<DynamicForm schema={schema} onSubmit={() => {}} />);
+    fireEvent.focus(screen.getByRole('combobox', { name: 'Agent' }));
+    await waitFor(() => expect(server.requests()).toHaveLength(1));
+    search('am');
+    await waitFor(() => expect(server.requests()).toHaveLength(2));
+
+    server.respond(1, ['Amos']);
+    expect(await screen.findByRole('option', { name: 'Amos' })).toBeTruthy();
+    server.respond(0, ['Zawadi']);
+    await new Promise((resolve) => setTimeout(resolve, 20));
+    expect(screen.queryByRole('option', { name: 'Zawadi' })).toBeNull();
+    expect(server.fetchMock.mock.calls[0][1]).toMatchObject({ signal: expect.objectContaining({ aborted: true }) });
+  });
+});
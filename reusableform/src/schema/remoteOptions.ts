@@ -0,0 +1,79 @@
+/**
+ * ================================================================
+ * REMOTE OPTIONS
+ * ================================================================
+ *
+ * Builds an `optionsLoader` for select and multiselect fields on top of
+ * `fetch`. Requests go through the global `fetch`, so tests can replace it
+ * with a mock and assert on the URLs and abort signals it receives.
+ *
+ * Request: GET {url}?q={query}&page={page}&pageSize={pageSize}, plus `params`
+ * Response: an array of records, or { items, hasMore } (see `parse`)
+ *
+ * Usage:
+ * const loadAgents = createFetchOptionsLoader({
+ *   url: '/api/agents',
+ *   toOption: (agent: Agent) => ({ label: agent.name, value: agent.id }),
+ * });
+ *
+ * fields: { supervisor: { id: 'supervisor', label: 'Supervisor', renderer: 'select', optionsLoader: loadAgents } }
+ */
+
+import type { OptionsLoader, SelectOption } from '../Components/Dynamic';
+
+export interface FetchOptionsLoaderConfig<T> {
+  url: string;
+  pageSize?: number;
+  /** Turns one record from the response into an option */
+  toOption: (record: T) => SelectOption;
+  /** Extracts records from the response body; by default an array or `{ items, hasMore }` */
+  parse?: (body: unknown) => { items: T[]; hasMore?: boolean };
+  /** Extra query parameters, e.g. taken from other fields */
+  params?: (formValues: Record<string, unknown>) => Record<string, string>;
+  init?: RequestInit;
+}
+
+export class OptionsRequestError extends Error {
+  status: number;
+
+  constructor(url: string, status: number) {
+    super(`Loading options from ${url} failed with status ${status}`);
+    this.name = 'OptionsRequestError';
+    this.status = status;
+  }
+}
+
+const defaultParse = <T>(body: unknown): { items: T[]; hasMore?: boolean } =>
+  Array.isArray(body) ? { items: body } : (body as { items: T[]; hasMore?: boolean });
+
+export const createFetchOptionsLoader = <T>({
+  url,
+  pageSize = 20,
+  toOption,
+  parse = defaultParse,
+  params,
+  init,
+}: FetchOptionsLoaderConfig<T>): OptionsLoader => {
+  const loader: OptionsLoader = async (query, formValues, { page, signal }) => {
+    const search = new URLSearchParams({
+      ...params?.(formValues),
+      q: query,
+      page: String(page),
+      pageSize: String(pageSize),
+    });
+    const requestUrl = `${url}${url.includes('?') ? '&' : '?'}${search}`;
+
+    const response = await fetch(requestUrl, { ...init, signal });
+    if (!response.ok) throw new OptionsRequestError(requestUrl, response.status);
+
+    const { items, hasMore } = parse(await response.json());
+    return {
+      options: items.map(toOption),
+      // Without an explicit flag, a full page suggests there is another one
+      hasMore: hasMore ?? items.length === pageSize,
+    };
+  };
+  // Responses differ by the extra parameters, so a change to them is a new search
+  if (params) loader.cacheKey = (formValues) => new URLSearchParams(params(formValues)).toString();
+  return loader;
+};